@@ -1,3 +1,5 @@
+import { getCropTypes } from './Crops';
+
 export type AchievementId =
   | 'first_harvest'
   | 'first_animal_resource'
@@ -91,7 +93,7 @@ const ACHIEVEMENTS: Record<AchievementId, Omit<Achievement, 'unlocked' | 'progre
     name: 'Crop Diversity',
     description: 'Harvest 10 of each crop type',
     icon: '🌈',
-    maxProgress: 3, // 3 crop types
+    maxProgress: getCropTypes().length,
   },
   friendship_level_max: {
     id: 'friendship_level_max',
@@ -109,6 +111,8 @@ const ACHIEVEMENTS: Record<AchievementId, Omit<Achievement, 'unlocked' | 'progre
   },
 };
 
+export type AchievementSaveState = Partial<Record<AchievementId, { unlocked: boolean; progress: number }>>;
+
 export class AchievementSystem {
   private achievements: Map<AchievementId, Achievement>;
   private onUnlock: ((achievement: Achievement) => void) | null = null;
@@ -179,6 +183,25 @@ export class AchievementSystem {
     return Math.floor((this.getUnlockedCount() / this.getTotalCount()) * 100);
   }
 
+  getSaveState(): AchievementSaveState {
+    const state: AchievementSaveState = {};
+    this.achievements.forEach((achievement, id) => {
+      state[id] = { unlocked: achievement.unlocked, progress: achievement.progress };
+    });
+    return state;
+  }
+
+  // Restore progress without firing unlock callbacks
+  loadSaveState(state: AchievementSaveState): void {
+    this.achievements.forEach((achievement, id) => {
+      const saved = state[id];
+      if (saved) {
+        achievement.unlocked = saved.unlocked;
+        achievement.progress = Math.min(saved.progress, achievement.maxProgress);
+      }
+    });
+  }
+
   registerUnlockCallback(callback: (achievement: Achievement) => void): void {
     this.onUnlock = callback;
   }
@@ -211,11 +234,9 @@ export class AchievementSystem {
     this.updateProgress('wealthy_farmer', totalCoins);
   }
 
-  onCropVarietyCheck(wheatCount: number, carrotCount: number, tomatoCount: number): void {
-    const hasAllTypes = wheatCount >= 10 && carrotCount >= 10 && tomatoCount >= 10;
-    if (hasAllTypes) {
-      this.updateProgress('crop_variety', 3);
-    }
+  // How many of each crop the player has, one count per crop type
+  onCropVarietyCheck(cropCounts: number[]): void {
+    this.updateProgress('crop_variety', cropCounts.filter((count) => count >= 10).length);
   }
 
   onFriendshipMaxed(): void {
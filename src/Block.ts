@@ -1,12 +1,99 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { getPhysicsWorld } from './physics';
+import type { BlockType } from './types';
+import { getBlockMaterial, registerColliderMaterial, unregisterCollider } from './BlockMaterials';
+import type { BlockMaterial } from './BlockMaterials';
+import { createRandom } from './Noise';
+
+// Shared render resources (0.5x0.5x0.5 block size)
+export const BLOCK_GEOMETRY = new THREE.BoxGeometry(0.5, 0.5, 0.5);
+const OUTLINE_GEOMETRY = new THREE.EdgesGeometry(BLOCK_GEOMETRY);
+const OUTLINE_MATERIAL = new THREE.LineBasicMaterial({
+  color: 0xffffff,
+  linewidth: 2,
+});
+const sharedMaterials: Map<string, THREE.MeshStandardMaterial> = new Map();
+
+// Mining cracks: a slightly larger see-through box over the block, one texture per stage
+const CRACK_STAGES = 6;
+const CRACK_GEOMETRY = new THREE.BoxGeometry(0.505, 0.505, 0.505);
+const crackMaterials: THREE.MeshBasicMaterial[] = [];
+
+// Each stage draws the cracks of the stage before plus a few more
+function getCrackMaterial(stage: number): THREE.MeshBasicMaterial {
+  if (!crackMaterials[stage]) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 32;
+    canvas.height = 32;
+    const context = canvas.getContext('2d')!;
+    context.strokeStyle = 'rgba(0, 0, 0, 0.75)';
+    context.lineWidth = 1.5;
+
+    const random = createRandom(7);
+    for (let crack = 0; crack < (stage + 1) * 2; crack++) {
+      let x = 16 + (random() - 0.5) * 8;
+      let y = 16 + (random() - 0.5) * 8;
+      context.beginPath();
+      context.moveTo(x, y);
+      for (let segment = 0; segment < 4; segment++) {
+        x += (random() - 0.5) * 12;
+        y += (random() - 0.5) * 12;
+        context.lineTo(x, y);
+      }
+      context.stroke();
+    }
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.magFilter = THREE.NearestFilter;
+    crackMaterials[stage] = new THREE.MeshBasicMaterial({ map: texture, transparent: true, depthWrite: false });
+  }
+  return crackMaterials[stage];
+}
+
+function createMeshMaterial(color: number, blockMaterial: BlockMaterial): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({
+    color,
+    transparent: blockMaterial.transparent,
+    opacity: blockMaterial.opacity,
+  });
+}
+
+function getSharedMaterial(color: number, blockMaterial: BlockMaterial): THREE.MeshStandardMaterial {
+  const key = `${color}:${blockMaterial.opacity}`;
+  let material = sharedMaterials.get(key);
+  if (!material) {
+    material = createMeshMaterial(color, blockMaterial);
+    sharedMaterials.set(key, material);
+  }
+  return material;
+}
+
+// One dynamic body shared by blocks that broke off together
+interface SharedBody {
+  body: RAPIER.RigidBody;
+  members: number;
+}
 
 export class Block {
-  mesh: THREE.Mesh;
-  rigidBody: RAPIER.RigidBody;
+  // World-space center and rotation; the mesh (when there is one) follows them
+  readonly position: THREE.Vector3;
+  readonly quaternion: THREE.Quaternion = new THREE.Quaternion();
+  // Null while the block is chunked: its chunk owns the merged collider instead
+  rigidBody: RAPIER.RigidBody | null = null;
+  readonly blockType: BlockType | null;
+  readonly material: BlockMaterial;
   private scene: THREE.Scene;
+  private color: number;
+  private meshInstance: THREE.Mesh | null = null;
   private outlineMesh: THREE.LineSegments | null = null;
+  private crackMesh: THREE.Mesh | null = null;
+  private ownsMaterial: boolean = false;
+  private chunked: boolean;
+  private collider: RAPIER.Collider | null = null;
+  // Set while riding a shared body: offset from the body origin
+  private sharedBody: SharedBody | null = null;
+  private bodyOffset: THREE.Vector3 | null = null;
 
   constructor(
     scene: THREE.Scene,
@@ -14,110 +101,254 @@ export class Block {
     y: number,
     z: number,
     color: number = 0x00ff00,
-    isStatic: boolean = false
+    isStatic: boolean = false,
+    blockType: BlockType | null = null,
+    chunked: boolean = false
   ) {
     this.scene = scene;
+    this.color = color;
+    this.blockType = blockType;
+    this.material = getBlockMaterial(blockType);
+    this.position = new THREE.Vector3(x, y, z);
+    // Chunked blocks are static blocks drawn and collided by their chunk
+    this.chunked = chunked && isStatic;
 
-    // Create visual mesh (0.5x0.5x0.5 block size)
-    const geometry = new THREE.BoxGeometry(0.5, 0.5, 0.5);
-    const material = new THREE.MeshStandardMaterial({ color });
-    this.mesh = new THREE.Mesh(geometry, material);
-    this.mesh.castShadow = true;
-    this.mesh.receiveShadow = true;
-    this.mesh.position.set(x, y, z);
-    scene.add(this.mesh);
+    if (!this.chunked) {
+      scene.add(this.mesh);
+      this.createRigidBody(isStatic);
+    }
+  }
 
-    // Create physics body
+  // Chunked blocks only get their own mesh once something needs one
+  get mesh(): THREE.Mesh {
+    if (!this.meshInstance) {
+      this.meshInstance = new THREE.Mesh(BLOCK_GEOMETRY, getSharedMaterial(this.color, this.material));
+      this.meshInstance.castShadow = true;
+      this.meshInstance.receiveShadow = true;
+      this.meshInstance.position.copy(this.position);
+      this.meshInstance.quaternion.copy(this.quaternion);
+    }
+    return this.meshInstance;
+  }
+
+  private createRigidBody(isStatic: boolean): void {
     const world = getPhysicsWorld();
+    const position = this.position;
     const rigidBodyDesc = isStatic
-      ? RAPIER.RigidBodyDesc.fixed().setTranslation(x, y, z)
-      : RAPIER.RigidBodyDesc.dynamic().setTranslation(x, y, z);
+      ? RAPIER.RigidBodyDesc.fixed().setTranslation(position.x, position.y, position.z)
+      : RAPIER.RigidBodyDesc.dynamic().setTranslation(position.x, position.y, position.z);
+    rigidBodyDesc.setRotation(this.quaternion);
+    if (!isStatic && this.material.granular) {
+      // Grains slide and stack instead of tumbling; the grid rules shape the pile
+      rigidBodyDesc.lockRotations();
+    }
     this.rigidBody = world.createRigidBody(rigidBodyDesc);
+    this.createCollider(this.rigidBody, new THREE.Vector3());
+  }
 
-    // Create box collider (half-extents are 0.25 for a 0.5x0.5x0.5 cube)
-    const colliderDesc = RAPIER.ColliderDesc.cuboid(0.25, 0.25, 0.25);
-    world.createCollider(colliderDesc, this.rigidBody);
+  // Box collider (half-extents are 0.25 for a 0.5x0.5x0.5 cube) with this block's material
+  private createCollider(body: RAPIER.RigidBody, offset: THREE.Vector3): void {
+    const colliderDesc = RAPIER.ColliderDesc.cuboid(0.25, 0.25, 0.25)
+      .setTranslation(offset.x, offset.y, offset.z)
+      .setDensity(this.material.density)
+      .setFriction(this.material.friction)
+      .setRestitution(this.material.restitution);
+    if (!body.isFixed()) {
+      // Moving blocks report contacts for impact sounds
+      colliderDesc.setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+    }
+    this.collider = getPhysicsWorld().createCollider(colliderDesc, body);
+    registerColliderMaterial(this.collider, this.material);
   }
 
   update(): void {
-    // Sync mesh position and rotation with physics body
+    if (!this.rigidBody) return;
+
+    // Sync position and rotation with physics body
     const position = this.rigidBody.translation();
     const rotation = this.rigidBody.rotation();
 
-    this.mesh.position.set(position.x, position.y, position.z);
-    this.mesh.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+    this.position.set(position.x, position.y, position.z);
+    this.quaternion.set(rotation.x, rotation.y, rotation.z, rotation.w);
+    if (this.bodyOffset) {
+      this.position.add(this.bodyOffset.clone().applyQuaternion(this.quaternion));
+    }
+    this.syncMesh();
+  }
+
+  private syncMesh(): void {
+    if (this.meshInstance) {
+      this.meshInstance.position.copy(this.position);
+      this.meshInstance.quaternion.copy(this.quaternion);
+    }
+    this.syncOutline();
+  }
+
+  // Recolor this block only (gives it its own material on first use)
+  setColor(color: number): void {
+    if (!this.ownsMaterial) {
+      this.mesh.material = createMeshMaterial(color, this.material);
+      this.ownsMaterial = true;
+    } else if (this.mesh.material instanceof THREE.MeshStandardMaterial) {
+      this.mesh.material.color.setHex(color);
+    }
+  }
+
+  isChunked(): boolean {
+    return this.chunked;
   }
 
   setHighlight(highlighted: boolean): void {
     if (highlighted) {
       if (!this.outlineMesh) {
-        const edges = new THREE.EdgesGeometry(this.mesh.geometry);
-        const lineMaterial = new THREE.LineBasicMaterial({
-          color: 0xffffff,
-          linewidth: 2,
-        });
-        this.outlineMesh = new THREE.LineSegments(edges, lineMaterial);
-        this.mesh.add(this.outlineMesh);
+        // Lives in the scene so it shows for chunk-rendered blocks too
+        this.outlineMesh = new THREE.LineSegments(OUTLINE_GEOMETRY, OUTLINE_MATERIAL);
+        this.syncOutline();
+        this.scene.add(this.outlineMesh);
       }
     } else {
       if (this.outlineMesh) {
-        this.mesh.remove(this.outlineMesh);
-        this.outlineMesh.geometry.dispose();
-        if (this.outlineMesh.material instanceof THREE.Material) {
-          this.outlineMesh.material.dispose();
-        }
+        this.scene.remove(this.outlineMesh);
         this.outlineMesh = null;
       }
     }
   }
 
+  // Show how far mining has got, from 0 (no cracks) to 1 (about to break)
+  setCrack(progress: number): void {
+    if (progress <= 0) {
+      if (this.crackMesh) {
+        this.scene.remove(this.crackMesh);
+        this.crackMesh = null;
+      }
+      return;
+    }
+
+    const material = getCrackMaterial(Math.min(CRACK_STAGES - 1, Math.floor(progress * CRACK_STAGES)));
+    if (!this.crackMesh) {
+      this.crackMesh = new THREE.Mesh(CRACK_GEOMETRY, material);
+      this.syncOutline();
+      this.scene.add(this.crackMesh);
+    }
+    this.crackMesh.material = material;
+  }
+
+  // Keeps the outline and cracks on the block
+  private syncOutline(): void {
+    [this.outlineMesh, this.crackMesh].forEach((overlay) => {
+      if (!overlay) return;
+      overlay.position.copy(this.position);
+      overlay.quaternion.copy(this.quaternion);
+      if (this.meshInstance) {
+        overlay.scale.copy(this.meshInstance.scale);
+      }
+    });
+  }
+
   convertToDynamic(): void {
     // Check if already dynamic
-    if (!this.rigidBody.isFixed()) {
+    if (!this.isStatic()) {
       return;
     }
 
-    // Get current position and rotation
-    const position = this.rigidBody.translation();
-    const rotation = this.rigidBody.rotation();
+    this.releaseStaticBody();
+
+    // Create new dynamic body at the current position and rotation
+    this.createRigidBody(false);
+  }
+
+  // Turn static blocks into one rigid dynamic piece so they fall together
+  static convertGroupToDynamic(blocks: Block[]): void {
+    const group = blocks.filter((block) => block.isStatic());
+    if (group.length === 0) return;
+    if (group.length === 1) {
+      group[0].convertToDynamic();
+      return;
+    }
+
+    const center = new THREE.Vector3();
+    group.forEach((block) => center.add(block.position));
+    center.divideScalar(group.length);
 
-    // Remove old static body
     const world = getPhysicsWorld();
-    world.removeRigidBody(this.rigidBody);
-
-    // Create new dynamic body
-    const rigidBodyDesc = RAPIER.RigidBodyDesc.dynamic().setTranslation(
-      position.x,
-      position.y,
-      position.z
-    );
-    rigidBodyDesc.setRotation(rotation);
-    this.rigidBody = world.createRigidBody(rigidBodyDesc);
+    const body = world.createRigidBody(RAPIER.RigidBodyDesc.dynamic().setTranslation(center.x, center.y, center.z));
+    const shared: SharedBody = { body, members: group.length };
 
-    // Create collider for new body
-    const colliderDesc = RAPIER.ColliderDesc.cuboid(0.25, 0.25, 0.25);
-    world.createCollider(colliderDesc, this.rigidBody);
+    group.forEach((block) => {
+      block.releaseStaticBody();
+      const offset = block.position.clone().sub(center);
+      block.createCollider(body, offset);
+      block.rigidBody = body;
+      block.sharedBody = shared;
+      block.bodyOffset = offset;
+    });
+  }
+
+  // Snap into a grid cell as a static block again (chunked when it has a type)
+  freeze(x: number, y: number, z: number): void {
+    if (this.isStatic()) return;
+
+    this.removeFromPhysics();
+    this.position.set(x, y, z);
+    this.quaternion.identity();
+    this.syncMesh();
+
+    if (this.blockType) {
+      this.chunked = true;
+      if (this.meshInstance) this.scene.remove(this.meshInstance);
+    } else {
+      this.createRigidBody(true);
+    }
+  }
+
+  private releaseStaticBody(): void {
+    // Remove old static body (chunked blocks have none)
+    this.removeFromPhysics();
+
+    // Moving blocks draw themselves
+    if (this.chunked) {
+      this.chunked = false;
+      this.scene.add(this.mesh);
+    }
+  }
+
+  // A shared body goes once its last block leaves it
+  private removeFromPhysics(): void {
+    const world = getPhysicsWorld();
+    if (this.collider) {
+      unregisterCollider(this.collider);
+    }
+    if (this.sharedBody) {
+      if (this.collider) world.removeCollider(this.collider, true);
+      this.sharedBody.members--;
+      if (this.sharedBody.members === 0) world.removeRigidBody(this.sharedBody.body);
+      this.sharedBody = null;
+      this.bodyOffset = null;
+    } else if (this.rigidBody) {
+      world.removeRigidBody(this.rigidBody);
+    }
+    this.rigidBody = null;
+    this.collider = null;
   }
 
   isStatic(): boolean {
-    return this.rigidBody.isFixed();
+    return this.rigidBody === null || this.rigidBody.isFixed();
   }
 
   destroy(): void {
-    // Remove highlight if present
+    // Remove highlight and cracks if present
     this.setHighlight(false);
+    this.setCrack(0);
 
-    // Remove from physics world
-    const world = getPhysicsWorld();
-    world.removeRigidBody(this.rigidBody);
+    this.removeFromPhysics();
 
     // Remove from scene
-    this.scene.remove(this.mesh);
+    if (!this.meshInstance) return;
+    this.scene.remove(this.meshInstance);
 
-    // Clean up geometry and material
-    this.mesh.geometry.dispose();
-    if (this.mesh.material instanceof THREE.Material) {
-      this.mesh.material.dispose();
+    // Shared geometry and materials stay alive for other blocks
+    if (this.ownsMaterial && this.meshInstance.material instanceof THREE.Material) {
+      this.meshInstance.material.dispose();
     }
   }
 }
@@ -0,0 +1,59 @@
+import type RAPIER from '@dimforge/rapier3d-compat';
+import type { BlockType } from './types';
+
+export type SoundProfile = 'stone' | 'wood' | 'soil' | 'sand' | 'glass';
+
+export interface BlockMaterial {
+  density: number; // Collider density; mass = density * volume
+  friction: number;
+  restitution: number;
+  hardness: number; // Seconds of mining to break by hand
+  transparent: boolean;
+  opacity: number;
+  sound: SoundProfile;
+  granular: boolean; // Pours and piles up at the angle of repose instead of holding shape
+}
+
+export const BlockMaterials: Record<BlockType, BlockMaterial> = {
+  DIRT: { density: 1.5, friction: 0.8, restitution: 0.05, hardness: 0.5, transparent: false, opacity: 1, sound: 'soil', granular: false },
+  STONE: { density: 2.6, friction: 0.7, restitution: 0.05, hardness: 1.5, transparent: false, opacity: 1, sound: 'stone', granular: false },
+  WOOD: { density: 0.7, friction: 0.6, restitution: 0.2, hardness: 1, transparent: false, opacity: 1, sound: 'wood', granular: false },
+  GRASS: { density: 1.4, friction: 0.9, restitution: 0.05, hardness: 0.6, transparent: false, opacity: 1, sound: 'soil', granular: false },
+  BRICK: { density: 1.9, friction: 0.7, restitution: 0.05, hardness: 1.25, transparent: false, opacity: 1, sound: 'stone', granular: false },
+  SAND: { density: 1.6, friction: 0.35, restitution: 0, hardness: 0.4, transparent: false, opacity: 1, sound: 'sand', granular: true },
+  GLASS: { density: 2.5, friction: 0.3, restitution: 0.1, hardness: 0.25, transparent: true, opacity: 0.45, sound: 'glass', granular: false },
+  COBBLESTONE: { density: 2.4, friction: 0.75, restitution: 0.05, hardness: 1.75, transparent: false, opacity: 1, sound: 'stone', granular: false },
+  PLANKS: { density: 0.6, friction: 0.6, restitution: 0.2, hardness: 0.75, transparent: false, opacity: 1, sound: 'wood', granular: false },
+};
+
+// Crops and other untyped blocks
+export const DEFAULT_BLOCK_MATERIAL: BlockMaterial = {
+  density: 1,
+  friction: 0.5,
+  restitution: 0,
+  hardness: 0,
+  transparent: false,
+  opacity: 1,
+  sound: 'soil',
+  granular: false,
+};
+
+export function getBlockMaterial(type: BlockType | null): BlockMaterial {
+  return type ? BlockMaterials[type] : DEFAULT_BLOCK_MATERIAL;
+}
+
+// Collider handle -> material, so contact events know what hit what
+const colliderMaterials: Map<number, BlockMaterial> = new Map();
+
+export function registerColliderMaterial(collider: RAPIER.Collider, material: BlockMaterial): void {
+  colliderMaterials.set(collider.handle, material);
+}
+
+// Call before the collider (or its body) is removed; handles get reused
+export function unregisterCollider(collider: RAPIER.Collider): void {
+  colliderMaterials.delete(collider.handle);
+}
+
+export function getColliderMaterial(handle: number): BlockMaterial | undefined {
+  return colliderMaterials.get(handle);
+}
@@ -0,0 +1,295 @@
+import * as THREE from 'three';
+import { BLOCK_GEOMETRY } from './Block';
+import { BlockColors } from './types';
+import type { BlockType } from './types';
+import type { VoxelWorld } from './VoxelWorld';
+import { IMPORT_CANCELLED } from './SaveSystem';
+import {
+  createStructureTemplate,
+  forEachTemplateCell,
+  parseStructureTemplate,
+  serializeStructureTemplate,
+} from './Structures';
+import type { StructurePlacement, StructureTemplate } from './Structures';
+import { VOXEL_SIZE, gridToWorld } from './VoxelGrid';
+import type { GridPos } from './VoxelGrid';
+
+const STORAGE_KEY = 'cropcroftcraft-blueprints';
+
+// Largest region that can be captured, in cells
+const MAX_CAPTURE_VOLUME = 32 * 32 * 32;
+
+// Captures a box of blocks into a blueprint (a structure template), then previews it as a
+// ghost at the crosshair until it is pasted. Saved blueprints live in localStorage.
+export class BlueprintTool {
+  private scene: THREE.Scene;
+  private world: VoxelWorld;
+  private active: boolean = false;
+  private corner: GridPos | null = null;
+  private blueprint: StructureTemplate | null = null;
+  private rotation: number = 0; // Degrees
+  private mirror: boolean = false;
+  private library: StructureTemplate[] = [];
+  private libraryIndex: number = -1;
+  private selection: THREE.Box3Helper;
+  private ghost: THREE.InstancedMesh | null = null;
+  private ghostMaterial: THREE.MeshStandardMaterial;
+
+  constructor(scene: THREE.Scene, world: VoxelWorld) {
+    this.scene = scene;
+    this.world = world;
+
+    this.selection = new THREE.Box3Helper(new THREE.Box3(), 0xffff00);
+    this.selection.visible = false;
+    scene.add(this.selection);
+
+    this.ghostMaterial = new THREE.MeshStandardMaterial({
+      transparent: true,
+      opacity: 0.4,
+      depthWrite: false,
+    });
+
+    this.library = this.loadLibrary();
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  toggle(): boolean {
+    this.active = !this.active;
+    this.corner = null;
+    if (!this.active) {
+      this.selection.visible = false;
+      if (this.ghost) this.ghost.visible = false;
+    }
+    return this.active;
+  }
+
+  getBlueprint(): StructureTemplate | null {
+    return this.blueprint;
+  }
+
+  getRotation(): number {
+    return this.rotation;
+  }
+
+  isMirrored(): boolean {
+    return this.mirror;
+  }
+
+  hasCorner(): boolean {
+    return this.corner !== null;
+  }
+
+  setCorner(cell: GridPos): void {
+    this.corner = { ...cell };
+  }
+
+  // Capture every block in the box between the first corner and this one; returns the block count
+  captureTo(cell: GridPos): number {
+    const corner = this.corner;
+    if (!corner) return 0;
+    this.corner = null;
+    this.selection.visible = false;
+
+    const min = { x: Math.min(corner.x, cell.x), y: Math.min(corner.y, cell.y), z: Math.min(corner.z, cell.z) };
+    const max = { x: Math.max(corner.x, cell.x), y: Math.max(corner.y, cell.y), z: Math.max(corner.z, cell.z) };
+    const volume = (max.x - min.x + 1) * (max.y - min.y + 1) * (max.z - min.z + 1);
+    if (volume > MAX_CAPTURE_VOLUME) {
+      throw new Error(`Selection is too big (${volume} cells, at most ${MAX_CAPTURE_VOLUME})`);
+    }
+
+    const cells: { type: BlockType; pos: GridPos }[] = [];
+    for (let x = min.x; x <= max.x; x++) {
+      for (let y = min.y; y <= max.y; y++) {
+        for (let z = min.z; z <= max.z; z++) {
+          // Crops belong to the crop system and aren't copied
+          const type = this.world.getBlockAtGrid(x, y, z)?.blockType;
+          if (type) cells.push({ type, pos: { x, y, z } });
+        }
+      }
+    }
+    if (cells.length === 0) return 0;
+
+    this.setBlueprint(createStructureTemplate('blueprint', cells));
+    this.libraryIndex = -1;
+    return cells.length;
+  }
+
+  rotate(): void {
+    this.rotation = (this.rotation + 90) % 360;
+    this.rebuildGhost();
+  }
+
+  toggleMirror(): void {
+    this.mirror = !this.mirror;
+    this.rebuildGhost();
+  }
+
+  // Follow the crosshair: the selection box grows toward the targeted block, the ghost sits on the paste cell
+  updatePreview(targetCell: GridPos | null, pasteCell: GridPos | null): void {
+    if (!this.active) return;
+
+    this.selection.visible = this.corner !== null && targetCell !== null;
+    if (this.corner && targetCell) {
+      const half = VOXEL_SIZE / 2;
+      this.selection.box.min.set(
+        gridToWorld(Math.min(this.corner.x, targetCell.x)) - half,
+        gridToWorld(Math.min(this.corner.y, targetCell.y)) - half,
+        gridToWorld(Math.min(this.corner.z, targetCell.z)) - half
+      );
+      this.selection.box.max.set(
+        gridToWorld(Math.max(this.corner.x, targetCell.x)) + half,
+        gridToWorld(Math.max(this.corner.y, targetCell.y)) + half,
+        gridToWorld(Math.max(this.corner.z, targetCell.z)) + half
+      );
+    }
+
+    if (this.ghost) {
+      this.ghost.visible = pasteCell !== null && this.corner === null;
+      if (pasteCell) {
+        this.ghost.position.set(gridToWorld(pasteCell.x), gridToWorld(pasteCell.y), gridToWorld(pasteCell.z));
+      }
+    }
+  }
+
+  // Every block the blueprint would place with its anchor on the given cell
+  forEachPasteCell(cell: GridPos, callback: (type: BlockType, pos: GridPos) => void): void {
+    if (!this.blueprint) return;
+    forEachTemplateCell(this.blueprint, this.getPlacement(cell), callback);
+  }
+
+  getLibrarySize(): number {
+    return this.library.length;
+  }
+
+  // Save the current blueprint under a name, replacing any saved blueprint with that name
+  saveBlueprint(name: string): void {
+    if (!this.blueprint) return;
+    this.blueprint = { ...this.blueprint, name };
+    const index = this.library.findIndex((saved) => saved.name === name);
+    if (index > -1) {
+      this.library[index] = this.blueprint;
+      this.libraryIndex = index;
+    } else {
+      this.library.push(this.blueprint);
+      this.libraryIndex = this.library.length - 1;
+    }
+    this.storeLibrary();
+  }
+
+  // Pick up the next saved blueprint
+  selectNextSaved(): StructureTemplate | null {
+    if (this.library.length === 0) return null;
+    this.libraryIndex = (this.libraryIndex + 1) % this.library.length;
+    this.setBlueprint(this.library[this.libraryIndex]);
+    return this.blueprint;
+  }
+
+  // Download the blueprint as a template file that can go straight into src/structures
+  exportToFile(): void {
+    if (!this.blueprint) return;
+    const blob = new Blob([serializeStructureTemplate(this.blueprint)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.blueprint.name}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  // Ask for a template file and make it the current blueprint
+  importFromFile(): Promise<StructureTemplate> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = 'application/json,.json';
+      // Closing the dialog without a file fires cancel instead of change
+      input.addEventListener('cancel', () => reject(new Error(IMPORT_CANCELLED)));
+      input.addEventListener('change', () => {
+        const file = input.files?.[0];
+        if (!file) {
+          reject(new Error(IMPORT_CANCELLED));
+          return;
+        }
+        file
+          .text()
+          .then((text) => {
+            const template = parseStructureTemplate(JSON.parse(text), file.name);
+            this.setBlueprint(template);
+            this.saveBlueprint(template.name);
+            resolve(template);
+          })
+          .catch(reject);
+      });
+      input.click();
+    });
+  }
+
+  private setBlueprint(template: StructureTemplate): void {
+    this.blueprint = template;
+    this.rotation = 0;
+    this.mirror = false;
+    this.rebuildGhost();
+  }
+
+  private getPlacement(cell: GridPos): StructurePlacement {
+    return {
+      template: this.blueprint?.name ?? '',
+      x: cell.x,
+      y: cell.y,
+      z: cell.z,
+      rotation: this.rotation,
+      mirror: this.mirror,
+    };
+  }
+
+  // One instanced mesh of see-through blocks, laid out around the anchor
+  private rebuildGhost(): void {
+    if (this.ghost) {
+      this.scene.remove(this.ghost);
+      this.ghost.dispose();
+      this.ghost = null;
+    }
+
+    const cells: { type: BlockType; pos: GridPos }[] = [];
+    this.forEachPasteCell({ x: 0, y: 0, z: 0 }, (type, pos) => cells.push({ type, pos }));
+    if (cells.length === 0) return;
+
+    const ghost = new THREE.InstancedMesh(BLOCK_GEOMETRY, this.ghostMaterial, cells.length);
+    const matrix = new THREE.Matrix4();
+    const color = new THREE.Color();
+    cells.forEach(({ type, pos }, i) => {
+      matrix.makeTranslation(gridToWorld(pos.x), gridToWorld(pos.y), gridToWorld(pos.z));
+      ghost.setMatrixAt(i, matrix);
+      ghost.setColorAt(i, color.setHex(BlockColors[type]));
+    });
+    ghost.visible = false;
+    this.scene.add(ghost);
+    this.ghost = ghost;
+  }
+
+  private loadLibrary(): StructureTemplate[] {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+
+    try {
+      const saved = JSON.parse(raw) as unknown[];
+      return saved.map((data, i) => parseStructureTemplate(data, `saved blueprint ${i}`));
+    } catch (error) {
+      console.error('Ignoring unreadable blueprints:', error);
+      return [];
+    }
+  }
+
+  private storeLibrary(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.library));
+    } catch (error) {
+      console.error('Failed to save blueprints:', error);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+
+export type CameraMode = 'firstPerson' | 'thirdPerson' | 'topDown';
+
+export interface CameraModeSettings {
+  name: string;
+  showAvatar: boolean;
+  freePointer: boolean; // The mouse pointer stays visible and targets whatever it's over
+}
+
+export const CAMERA_MODES: Record<CameraMode, CameraModeSettings> = {
+  firstPerson: { name: '👁️ First person', showAvatar: false, freePointer: false },
+  thirdPerson: { name: '🧑‍🌾 Third person', showAvatar: true, freePointer: false },
+  topDown: { name: '🗺️ Farm overview', showAvatar: true, freePointer: true },
+};
+
+const FOLLOW_DISTANCE = 4; // Behind the eyes in third person
+const FOLLOW_RISE = 0.5; // The orbit centre sits this far above the eyes
+const FOLLOW_WALL_GAP = 0.2; // Kept between the camera and a wall it backs into
+const OVERHEAD_DISTANCE = 40;
+const OVERHEAD_PITCH = (55 * Math.PI) / 180; // Looking down from above the horizon
+const OVERHEAD_VIEW_HEIGHT = 24; // World units from the top of the screen to the bottom
+
+// Chooses the camera the world is drawn and targeted from. The player's own camera stays at
+// their eyes (Controls moves it); the third-person camera orbits behind it and the overview
+// looks down on the farm at a fixed angle with the mouse pointer free to pick targets.
+export class CameraRig {
+  private eye: THREE.PerspectiveCamera;
+  private follow: THREE.PerspectiveCamera;
+  private overhead: THREE.OrthographicCamera;
+  private mode: CameraMode = 'firstPerson';
+  private pointer: THREE.Vector2 = new THREE.Vector2(); // Screen position, -1 to 1
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private euler: THREE.Euler = new THREE.Euler(0, 0, 0, 'YXZ');
+  // How far a ray goes before hitting something solid, or null if it doesn't
+  private castRay: (origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number) => number | null;
+
+  constructor(
+    eye: THREE.PerspectiveCamera,
+    castRay: (origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number) => number | null
+  ) {
+    this.eye = eye;
+    this.castRay = castRay;
+    this.follow = new THREE.PerspectiveCamera(eye.fov, eye.aspect, eye.near, eye.far);
+    this.overhead = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, OVERHEAD_DISTANCE * 3);
+    this.setAspect(eye.aspect);
+
+    // Mouse and touch both move the overview's target
+    window.addEventListener('pointermove', (e) => this.trackPointer(e));
+    window.addEventListener('pointerdown', (e) => this.trackPointer(e));
+  }
+
+  getMode(): CameraMode {
+    return this.mode;
+  }
+
+  setMode(mode: CameraMode): void {
+    this.mode = mode;
+    this.update();
+  }
+
+  getNextMode(): CameraMode {
+    const modes = Object.keys(CAMERA_MODES) as CameraMode[];
+    return modes[(modes.indexOf(this.mode) + 1) % modes.length];
+  }
+
+  setAspect(aspect: number): void {
+    this.follow.aspect = aspect;
+    this.follow.updateProjectionMatrix();
+    const halfHeight = OVERHEAD_VIEW_HEIGHT / 2;
+    this.overhead.top = halfHeight;
+    this.overhead.bottom = -halfHeight;
+    this.overhead.left = -halfHeight * aspect;
+    this.overhead.right = halfHeight * aspect;
+    this.overhead.updateProjectionMatrix();
+  }
+
+  getCamera(): THREE.Camera {
+    if (this.mode === 'thirdPerson') return this.follow;
+    if (this.mode === 'topDown') return this.overhead;
+    return this.eye;
+  }
+
+  // Where break, place and the block highlight aim: the middle of the screen, or the pointer
+  // in the overview
+  getAimRay(): THREE.Ray {
+    if (this.mode === 'topDown') {
+      this.raycaster.setFromCamera(this.pointer, this.overhead);
+      return this.raycaster.ray.clone();
+    }
+    const camera = this.getCamera();
+    const direction = new THREE.Vector3();
+    camera.getWorldDirection(direction);
+    return new THREE.Ray(camera.position.clone(), direction);
+  }
+
+  // Moves the third-person and overview cameras after the eyes have moved
+  update(): void {
+    if (this.mode === 'thirdPerson') {
+      this.updateFollow();
+    } else if (this.mode === 'topDown') {
+      this.updateOverhead();
+    }
+  }
+
+  // Behind the eyes along the look direction, pulled in front of any wall in the way
+  private updateFollow(): void {
+    const pivot = this.eye.position.clone();
+    pivot.y += FOLLOW_RISE;
+    const back = new THREE.Vector3();
+    this.eye.getWorldDirection(back).negate();
+
+    const hit = this.castRay(pivot, back, FOLLOW_DISTANCE);
+    const distance = hit === null ? FOLLOW_DISTANCE : Math.max(hit - FOLLOW_WALL_GAP, 0);
+
+    this.follow.position.copy(pivot).addScaledVector(back, distance);
+    this.follow.quaternion.copy(this.eye.quaternion);
+  }
+
+  // Above and behind the player, turned the way they face so walking forward goes up the screen
+  private updateOverhead(): void {
+    this.euler.setFromQuaternion(this.eye.quaternion);
+    const yaw = this.euler.y;
+    const horizontal = Math.cos(OVERHEAD_PITCH) * OVERHEAD_DISTANCE;
+
+    this.overhead.position.set(
+      this.eye.position.x + Math.sin(yaw) * horizontal,
+      this.eye.position.y + Math.sin(OVERHEAD_PITCH) * OVERHEAD_DISTANCE,
+      this.eye.position.z + Math.cos(yaw) * horizontal
+    );
+    this.overhead.lookAt(this.eye.position);
+  }
+
+  private trackPointer(e: PointerEvent): void {
+    this.pointer.set((e.clientX / window.innerWidth) * 2 - 1, -(e.clientY / window.innerHeight) * 2 + 1);
+  }
+}
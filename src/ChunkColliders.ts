@@ -0,0 +1,165 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+import { getPhysicsWorld } from './physics';
+import type { Block } from './Block';
+import { registerColliderMaterial, unregisterCollider } from './BlockMaterials';
+import type { BlockMaterial } from './BlockMaterials';
+import { VoxelGrid, CHUNK_SIZE, VOXEL_SIZE, chunkCoord, chunkKey, gridToWorld } from './VoxelGrid';
+import type { VoxelChunk } from './VoxelGrid';
+
+interface CollisionBox {
+  x: number; // Grid coordinates of the minimum corner
+  y: number;
+  z: number;
+  width: number; // Size in cells
+  height: number;
+  depth: number;
+  material: BlockMaterial;
+}
+
+// One fixed body per chunk holding greedy-merged box colliders for its chunked blocks
+export class ChunkColliders {
+  private grid: VoxelGrid<Block>;
+  private bodies: Map<string, RAPIER.RigidBody> = new Map();
+  private colliders: Map<string, RAPIER.Collider[]> = new Map();
+  private dirtyChunks: Set<string> = new Set();
+
+  constructor(grid: VoxelGrid<Block>) {
+    this.grid = grid;
+  }
+
+  markDirty(x: number, y: number, z: number): void {
+    this.dirtyChunks.add(chunkKey(chunkCoord(x), chunkCoord(y), chunkCoord(z)));
+  }
+
+  // Rebuild chunks changed since the last step, before physics runs
+  update(): void {
+    if (this.dirtyChunks.size === 0) return;
+
+    this.dirtyChunks.forEach((key) => this.rebuildChunk(key));
+    this.dirtyChunks.clear();
+  }
+
+  getBodyCount(): number {
+    return this.bodies.size;
+  }
+
+  private rebuildChunk(key: string): void {
+    const world = getPhysicsWorld();
+    const oldBody = this.bodies.get(key);
+    if (oldBody) {
+      // Removing the body removes its colliders too
+      this.colliders.get(key)?.forEach(unregisterCollider);
+      world.removeRigidBody(oldBody);
+      this.bodies.delete(key);
+      this.colliders.delete(key);
+    }
+
+    const [cx, cy, cz] = key.split(',').map(Number);
+    const chunk = this.grid.getChunk(cx, cy, cz);
+    if (!chunk) return;
+
+    const boxes = this.mergeBoxes(chunk);
+    if (boxes.length === 0) return;
+
+    const body = world.createRigidBody(RAPIER.RigidBodyDesc.fixed());
+    const halfCell = VOXEL_SIZE / 2;
+    const colliders: RAPIER.Collider[] = [];
+    for (const box of boxes) {
+      // Box center in world space; cells are centered on their grid coordinate
+      const centerX = gridToWorld(box.x) - halfCell + (box.width * VOXEL_SIZE) / 2;
+      const centerY = gridToWorld(box.y) - halfCell + (box.height * VOXEL_SIZE) / 2;
+      const centerZ = gridToWorld(box.z) - halfCell + (box.depth * VOXEL_SIZE) / 2;
+      const colliderDesc = RAPIER.ColliderDesc.cuboid(
+        (box.width * VOXEL_SIZE) / 2,
+        (box.height * VOXEL_SIZE) / 2,
+        (box.depth * VOXEL_SIZE) / 2
+      )
+        .setTranslation(centerX, centerY, centerZ)
+        .setFriction(box.material.friction)
+        .setRestitution(box.material.restitution);
+      const collider = world.createCollider(colliderDesc, body);
+      registerColliderMaterial(collider, box.material);
+      colliders.push(collider);
+    }
+    this.bodies.set(key, body);
+    this.colliders.set(key, colliders);
+  }
+
+  // Greedy meshing of solid cells into as few axis-aligned boxes as possible.
+  // Boxes only span one material so contacts keep per-material friction.
+  private mergeBoxes(chunk: VoxelChunk<Block>): CollisionBox[] {
+    const size = CHUNK_SIZE;
+    const baseX = chunk.cx * size;
+    const baseY = chunk.cy * size;
+    const baseZ = chunk.cz * size;
+    const index = (x: number, y: number, z: number) => x + y * size + z * size * size;
+
+    const solid: (BlockMaterial | null)[] = new Array(size * size * size).fill(null);
+    this.grid.forEachInChunk(chunk, (block, pos) => {
+      if (block.isChunked()) {
+        solid[index(pos.x - baseX, pos.y - baseY, pos.z - baseZ)] = block.material;
+      }
+    });
+
+    const used: boolean[] = new Array(size * size * size).fill(false);
+    let material: BlockMaterial | null = null;
+    const free = (x: number, y: number, z: number) =>
+      solid[index(x, y, z)] === material && !used[index(x, y, z)];
+    const boxes: CollisionBox[] = [];
+
+    for (let y = 0; y < size; y++) {
+      for (let z = 0; z < size; z++) {
+        for (let x = 0; x < size; x++) {
+          material = solid[index(x, y, z)];
+          if (!material || used[index(x, y, z)]) continue;
+
+          // Grow along x
+          let width = 1;
+          while (x + width < size && free(x + width, y, z)) width++;
+
+          // Grow along z while the whole row is free
+          let depth = 1;
+          while (z + depth < size) {
+            let rowFree = true;
+            for (let dx = 0; dx < width && rowFree; dx++) rowFree = free(x + dx, y, z + depth);
+            if (!rowFree) break;
+            depth++;
+          }
+
+          // Grow along y while the whole slab is free
+          let height = 1;
+          while (y + height < size) {
+            let slabFree = true;
+            for (let dz = 0; dz < depth && slabFree; dz++) {
+              for (let dx = 0; dx < width && slabFree; dx++) {
+                slabFree = free(x + dx, y + height, z + dz);
+              }
+            }
+            if (!slabFree) break;
+            height++;
+          }
+
+          for (let dy = 0; dy < height; dy++) {
+            for (let dz = 0; dz < depth; dz++) {
+              for (let dx = 0; dx < width; dx++) {
+                used[index(x + dx, y + dy, z + dz)] = true;
+              }
+            }
+          }
+
+          boxes.push({ x: baseX + x, y: baseY + y, z: baseZ + z, width, height, depth, material });
+        }
+      }
+    }
+
+    return boxes;
+  }
+
+  dispose(): void {
+    const world = getPhysicsWorld();
+    this.colliders.forEach((colliders) => colliders.forEach(unregisterCollider));
+    this.bodies.forEach((body) => world.removeRigidBody(body));
+    this.bodies.clear();
+    this.colliders.clear();
+  }
+}
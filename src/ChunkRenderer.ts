@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import { BLOCK_GEOMETRY } from './Block';
+import type { Block } from './Block';
+import { BlockColors } from './types';
+import { VoxelGrid, FACE_NEIGHBORS, chunkCoord, chunkKey, gridToWorld } from './VoxelGrid';
+import type { VoxelChunk } from './VoxelGrid';
+
+interface VisibleBlock {
+  block: Block;
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Instances share one material, so every transparent block draws at this opacity
+const TRANSPARENT_OPACITY = 0.45;
+
+// Draws the chunk-rendered static blocks of a chunk with one InstancedMesh for opaque
+// blocks and one for transparent ones
+export class ChunkRenderer {
+  private scene: THREE.Scene;
+  private grid: VoxelGrid<Block>;
+  private meshes: Map<string, THREE.InstancedMesh[]> = new Map();
+  private dirtyChunks: Set<string> = new Set();
+  private material: THREE.MeshStandardMaterial;
+  private transparentMaterial: THREE.MeshStandardMaterial;
+
+  constructor(scene: THREE.Scene, grid: VoxelGrid<Block>) {
+    this.scene = scene;
+    this.grid = grid;
+    // Per-instance colors tint these white base materials
+    this.material = new THREE.MeshStandardMaterial({ color: 0xffffff });
+    this.transparentMaterial = new THREE.MeshStandardMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: TRANSPARENT_OPACITY,
+      depthWrite: false,
+    });
+  }
+
+  // Flag the chunk holding a cell (and any chunk sharing that face) for rebuild
+  markDirty(x: number, y: number, z: number): void {
+    for (const offset of [{ x: 0, y: 0, z: 0 }, ...FACE_NEIGHBORS]) {
+      const nx = x + offset.x;
+      const ny = y + offset.y;
+      const nz = z + offset.z;
+      this.dirtyChunks.add(chunkKey(chunkCoord(nx), chunkCoord(ny), chunkCoord(nz)));
+    }
+  }
+
+  // Rebuild chunks changed since the last frame
+  update(): void {
+    if (this.dirtyChunks.size === 0) return;
+
+    this.dirtyChunks.forEach((key) => this.rebuildChunk(key));
+    this.dirtyChunks.clear();
+  }
+
+  getDrawCallCount(): number {
+    let count = 0;
+    this.meshes.forEach((meshes) => (count += meshes.length));
+    return count;
+  }
+
+  private rebuildChunk(key: string): void {
+    this.meshes.get(key)?.forEach((mesh) => {
+      this.scene.remove(mesh);
+      mesh.dispose();
+    });
+    this.meshes.delete(key);
+
+    const [cx, cy, cz] = key.split(',').map(Number);
+    const chunk = this.grid.getChunk(cx, cy, cz);
+    if (!chunk) return;
+
+    const visible = this.collectVisibleBlocks(chunk);
+    const opaque = visible.filter(({ block }) => !block.material.transparent);
+    const transparent = visible.filter(({ block }) => block.material.transparent);
+
+    const meshes: THREE.InstancedMesh[] = [];
+    if (opaque.length > 0) meshes.push(this.buildMesh(opaque, this.material));
+    if (transparent.length > 0) meshes.push(this.buildMesh(transparent, this.transparentMaterial));
+    if (meshes.length === 0) return;
+
+    meshes.forEach((mesh) => this.scene.add(mesh));
+    this.meshes.set(key, meshes);
+  }
+
+  private buildMesh(blocks: VisibleBlock[], material: THREE.MeshStandardMaterial): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(BLOCK_GEOMETRY, material, blocks.length);
+    mesh.castShadow = !material.transparent;
+    mesh.receiveShadow = true;
+
+    const matrix = new THREE.Matrix4();
+    const color = new THREE.Color();
+    blocks.forEach(({ block, x, y, z }, index) => {
+      matrix.makeTranslation(gridToWorld(x), gridToWorld(y), gridToWorld(z));
+      mesh.setMatrixAt(index, matrix);
+      mesh.setColorAt(index, color.setHex(BlockColors[block.blockType!]));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) {
+      mesh.instanceColor.needsUpdate = true;
+    }
+    mesh.computeBoundingSphere();
+    return mesh;
+  }
+
+  // Skip blocks buried on all six sides by opaque blocks; nobody can see them
+  private collectVisibleBlocks(chunk: VoxelChunk<Block>): VisibleBlock[] {
+    const visible: VisibleBlock[] = [];
+
+    this.grid.forEachInChunk(chunk, (block, pos) => {
+      if (!block.isChunked()) return;
+
+      const buried = FACE_NEIGHBORS.every((offset) => {
+        const neighbor = this.grid.get(pos.x + offset.x, pos.y + offset.y, pos.z + offset.z);
+        return neighbor !== undefined && neighbor.isChunked() && !neighbor.material.transparent;
+      });
+      if (!buried) {
+        visible.push({ block, ...pos });
+      }
+    });
+
+    return visible;
+  }
+
+  dispose(): void {
+    this.meshes.forEach((meshes) =>
+      meshes.forEach((mesh) => {
+        this.scene.remove(mesh);
+        mesh.dispose();
+      })
+    );
+    this.meshes.clear();
+    this.material.dispose();
+    this.transparentMaterial.dispose();
+  }
+}
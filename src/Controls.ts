@@ -1,17 +1,35 @@
 import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import { getPhysicsWorld } from './physics';
+import { DEFAULT_BLOCK_MATERIAL, getColliderMaterial } from './BlockMaterials';
+import { VOXEL_SIZE } from './VoxelGrid';
+import type { InputManager } from './Input';
+
+// Player body, in world units: a capsule standing on its feet with the camera at eye height
+export const EYE_HEIGHT = 1.5;
+const BODY_HEIGHT = 1.7;
+const BODY_RADIUS = 0.3;
+const CAPSULE_HALF_HEIGHT = BODY_HEIGHT / 2 - BODY_RADIUS; // Of the straight middle part
+const EYE_ABOVE_CENTER = EYE_HEIGHT - BODY_HEIGHT / 2;
+const STEP_HEIGHT = VOXEL_SIZE + 0.05; // Walks up single-cell ledges without jumping
+const GRAVITY = 25;
+const JUMP_SPEED = 6;
+const MAX_FALL_SPEED = 20;
+const MAX_STEP_SECONDS = 1 / 30;
+const DOUBLE_TAP_SECONDS = 0.3; // Jump twice this quickly toggles flying
+const MOUSE_SENSITIVITY = 0.002; // Radians per pixel
+const STICK_LOOK_SPEED = 2.5; // Radians per second at full right-stick tilt
+const DRAG_SENSITIVITY = 0.005; // Radians per pixel of touch look-drag
 
 export class Controls {
   private camera: THREE.Camera;
   private element: HTMLElement;
+  private input: InputManager;
+  // Playing rather than paused: pointer lock with a mouse, or the on-screen controls on touch devices
   private isLocked: boolean = false;
-
-  // Movement state
-  private moveForward: boolean = false;
-  private moveBackward: boolean = false;
-  private moveLeft: boolean = false;
-  private moveRight: boolean = false;
-  private moveUp: boolean = false;
-  private moveDown: boolean = false;
+  private touchMode: boolean = false;
+  private freePointer: boolean = false; // Mouse stays visible for clicking on the farm
+  private onLockChange: ((locked: boolean) => void)[] = [];
 
   // Rotation
   private euler: THREE.Euler = new THREE.Euler(0, 0, 0, 'YXZ');
@@ -20,107 +38,144 @@ export class Controls {
 
   // Movement speed
   private moveSpeed: number = 10.0; // units per second
+  private walkSpeed: number = 5.0;
+
+  // Physics body moved by Rapier's character controller; walls, terrain, houses and
+  // creatures stop it, crops don't
+  private body: RAPIER.RigidBody;
+  private collider: RAPIER.Collider;
+  private controller: RAPIER.KinematicCharacterController;
+  private lastEye: THREE.Vector3 = new THREE.Vector3();
+
+  // Walking with gravity, or flying when allowed
+  private flyingAllowed: boolean = true;
+  private flying: boolean = true;
+  private velocityY: number = 0;
+  private onGround: boolean = false;
+  private lastJumpPress: number = 0;
+  private isAreaLoaded: ((x: number, z: number) => boolean) | null = null;
 
-  constructor(camera: THREE.Camera, element: HTMLElement) {
+  constructor(camera: THREE.Camera, element: HTMLElement, input: InputManager) {
     this.camera = camera;
     this.element = element;
+    this.input = input;
+
+    const world = getPhysicsWorld();
+    const center = this.getBodyCenter(camera.position);
+    this.body = world.createRigidBody(
+      RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(center.x, center.y, center.z)
+    );
+    this.collider = world.createCollider(RAPIER.ColliderDesc.capsule(CAPSULE_HALF_HEIGHT, BODY_RADIUS), this.body);
+    this.controller = world.createCharacterController(0.02);
+    this.controller.enableAutostep(STEP_HEIGHT, 0.1, false);
+    this.controller.enableSnapToGround(STEP_HEIGHT);
+    this.controller.setMaxSlopeClimbAngle(Math.PI / 4);
+    this.controller.setApplyImpulsesToDynamicBodies(true);
+    this.lastEye.copy(camera.position);
 
     this.element.addEventListener('click', () => {
       this.lock();
     });
 
     document.addEventListener('pointerlockchange', () => {
-      this.isLocked = document.pointerLockElement === this.element;
+      if (!this.usesPointerLock()) return;
+      this.setLocked(document.pointerLockElement === this.element);
     });
 
     document.addEventListener('mousemove', (event) => {
-      if (!this.isLocked) return;
-
-      const movementX = event.movementX || 0;
-      const movementY = event.movementY || 0;
+      if (!this.isLocked || !this.usesPointerLock()) return;
+      this.turn((event.movementX || 0) * MOUSE_SENSITIVITY, (event.movementY || 0) * MOUSE_SENSITIVITY);
+    });
 
-      this.euler.setFromQuaternion(this.camera.quaternion);
+    input.registerActionCallback((action) => {
+      if (action === 'jump') this.onJumpPressed();
+    });
+  }
 
-      this.euler.y -= movementX * 0.002;
-      this.euler.x -= movementY * 0.002;
+  // Flying starts on when allowed and can then be toggled by double-tapping jump
+  setFlyingAllowed(allowed: boolean): void {
+    this.flyingAllowed = allowed;
+    this.setFlying(allowed);
+  }
 
-      this.euler.x = Math.max(
-        Math.PI / 2 - this.maxPolarAngle,
-        Math.min(Math.PI / 2 - this.minPolarAngle, this.euler.x)
-      );
+  isFlying(): boolean {
+    return this.flying;
+  }
 
-      this.camera.quaternion.setFromEuler(this.euler);
-    });
+  // Tells the body where terrain has been generated; it won't walk or fall into the rest
+  setAreaCheck(isAreaLoaded: (x: number, z: number) => boolean): void {
+    this.isAreaLoaded = isAreaLoaded;
+  }
 
-    document.addEventListener('keydown', (event) => {
-      this.onKeyDown(event);
-    });
+  // Whether a block centered here would overlap the player's body
+  overlapsBody(x: number, y: number, z: number): boolean {
+    const feet = this.camera.position.y - EYE_HEIGHT;
+    const reach = BODY_RADIUS + VOXEL_SIZE / 2;
+    return (
+      Math.abs(x - this.camera.position.x) < reach &&
+      Math.abs(z - this.camera.position.z) < reach &&
+      y + VOXEL_SIZE / 2 > feet &&
+      y - VOXEL_SIZE / 2 < feet + BODY_HEIGHT
+    );
+  }
 
-    document.addEventListener('keyup', (event) => {
-      this.onKeyUp(event);
-    });
+  // Touch devices have no pointer lock; locking just starts play
+  setTouchMode(enabled: boolean): void {
+    this.touchMode = enabled;
   }
 
-  private onKeyDown(event: KeyboardEvent): void {
-    switch (event.code) {
-      case 'KeyW':
-        this.moveForward = true;
-        break;
-      case 'KeyA':
-        this.moveLeft = true;
-        break;
-      case 'KeyS':
-        this.moveBackward = true;
-        break;
-      case 'KeyD':
-        this.moveRight = true;
-        break;
-      case 'Space':
-        this.moveUp = true;
-        break;
-      case 'ShiftLeft':
-      case 'ShiftRight':
-        this.moveDown = true;
-        break;
-    }
+  isTouchMode(): boolean {
+    return this.touchMode;
   }
 
-  private onKeyUp(event: KeyboardEvent): void {
-    switch (event.code) {
-      case 'KeyW':
-        this.moveForward = false;
-        break;
-      case 'KeyA':
-        this.moveLeft = false;
-        break;
-      case 'KeyS':
-        this.moveBackward = false;
-        break;
-      case 'KeyD':
-        this.moveRight = false;
-        break;
-      case 'Space':
-        this.moveUp = false;
-        break;
-      case 'ShiftLeft':
-      case 'ShiftRight':
-        this.moveDown = false;
-        break;
+  // Views that click on the farm with the mouse (top-down) play without pointer lock or mouse look
+  setFreePointer(free: boolean): void {
+    const wasLocking = this.usesPointerLock();
+    this.freePointer = free;
+    if (!this.isLocked || wasLocking === this.usesPointerLock()) return;
+    // Keep playing through the switch
+    if (wasLocking) {
+      document.exitPointerLock();
+    } else {
+      this.element.requestPointerLock();
     }
   }
 
   lock(): void {
-    this.element.requestPointerLock();
+    if (!this.usesPointerLock()) {
+      this.setLocked(true);
+    } else {
+      this.element.requestPointerLock();
+    }
   }
 
   unlock(): void {
-    document.exitPointerLock();
+    if (!this.usesPointerLock()) {
+      this.setLocked(false);
+    } else {
+      document.exitPointerLock();
+    }
+  }
+
+  isActive(): boolean {
+    return this.isLocked;
+  }
+
+  registerLockChangeCallback(callback: (locked: boolean) => void): void {
+    this.onLockChange.push(callback);
   }
 
   update(deltaTime: number): void {
+    // Something else moved the camera (the intro or a loaded farm): take the body along
+    if (this.camera.position.distanceToSquared(this.lastEye) > 1e-6) {
+      this.teleport();
+      return;
+    }
     if (!this.isLocked) return;
 
-    const moveDistance = this.moveSpeed * deltaTime;
+    const step = Math.min(deltaTime, MAX_STEP_SECONDS);
+    this.look(step);
+    const moveDistance = (this.flying ? this.moveSpeed : this.walkSpeed) * step;
 
     // Get forward and right directions
     const forward = new THREE.Vector3();
@@ -131,24 +186,128 @@ export class Controls {
     forward.y = 0; // Keep movement on horizontal plane
     forward.normalize();
 
-    // Apply movement
-    if (this.moveForward) {
-      this.camera.position.addScaledVector(forward, moveDistance);
-    }
-    if (this.moveBackward) {
-      this.camera.position.addScaledVector(forward, -moveDistance);
+    // Keys and the left stick add up; diagonals are no faster
+    const stick = this.input.getMoveAxis();
+    const ahead = Number(this.input.isActive('move_forward')) - Number(this.input.isActive('move_backward')) - stick.y;
+    const strafe = Number(this.input.isActive('move_right')) - Number(this.input.isActive('move_left')) + stick.x;
+    const move = new THREE.Vector3().addScaledVector(forward, ahead).addScaledVector(right, strafe);
+    if (move.lengthSq() > 1) move.normalize();
+    move.multiplyScalar(moveDistance);
+
+    const up = this.input.isActive('jump');
+    if (this.flying) {
+      if (up) move.y += moveDistance;
+      if (this.input.isActive('descend')) move.y -= moveDistance;
+    } else {
+      // Gravity and jumping
+      if (this.onGround && up) {
+        this.velocityY = JUMP_SPEED;
+      }
+      this.velocityY = Math.max(this.velocityY - GRAVITY * step, -MAX_FALL_SPEED);
+      move.y = this.velocityY * step;
     }
-    if (this.moveLeft) {
-      this.camera.position.addScaledVector(right, -moveDistance);
+
+    this.moveBody(move);
+  }
+
+  // The right stick and touch look-drags turn the camera like the mouse does
+  private look(deltaTime: number): void {
+    const stick = this.input.getLookAxis();
+    const drag = this.input.takeLookDelta();
+    const yaw = stick.x * STICK_LOOK_SPEED * deltaTime + drag.x * DRAG_SENSITIVITY;
+    const pitch = stick.y * STICK_LOOK_SPEED * deltaTime + drag.y * DRAG_SENSITIVITY;
+    if (yaw !== 0 || pitch !== 0) {
+      this.turn(yaw, pitch);
     }
-    if (this.moveRight) {
-      this.camera.position.addScaledVector(right, moveDistance);
+  }
+
+  private turn(yaw: number, pitch: number): void {
+    this.euler.setFromQuaternion(this.camera.quaternion);
+
+    this.euler.y -= yaw;
+    this.euler.x -= pitch;
+
+    this.euler.x = Math.max(
+      Math.PI / 2 - this.maxPolarAngle,
+      Math.min(Math.PI / 2 - this.minPolarAngle, this.euler.x)
+    );
+
+    this.camera.quaternion.setFromEuler(this.euler);
+  }
+
+  private usesPointerLock(): boolean {
+    return !this.touchMode && !this.freePointer;
+  }
+
+  private setLocked(locked: boolean): void {
+    if (locked === this.isLocked) return;
+    this.isLocked = locked;
+    this.onLockChange.forEach((callback) => callback(locked));
+  }
+
+  private setFlying(flying: boolean): void {
+    this.flying = flying;
+    this.velocityY = 0;
+    this.onGround = false;
+  }
+
+  private onJumpPressed(): void {
+    const now = performance.now() / 1000;
+    if (this.flyingAllowed && now - this.lastJumpPress < DOUBLE_TAP_SECONDS) {
+      this.setFlying(!this.flying);
+      this.lastJumpPress = 0;
+      return;
     }
-    if (this.moveUp) {
-      this.camera.position.y += moveDistance;
+    this.lastJumpPress = now;
+  }
+
+  private moveBody(move: THREE.Vector3): void {
+    const eye = this.camera.position;
+
+    // Ungenerated terrain has no colliders yet: wait at its edge instead of falling through
+    if (this.isAreaLoaded) {
+      if (!this.isAreaLoaded(eye.x + move.x, eye.z + move.z)) {
+        move.x = 0;
+        move.z = 0;
+      }
+      if (!this.isAreaLoaded(eye.x, eye.z)) {
+        this.velocityY = 0;
+        return;
+      }
     }
-    if (this.moveDown) {
-      this.camera.position.y -= moveDistance;
+
+    // Crops (untyped blocks) are walked through
+    this.controller.computeColliderMovement(
+      this.collider,
+      move,
+      undefined,
+      undefined,
+      (collider) => getColliderMaterial(collider.handle) !== DEFAULT_BLOCK_MATERIAL
+    );
+    const moved = this.controller.computedMovement();
+
+    if (!this.flying) {
+      this.onGround = this.controller.computedGrounded();
+      // Landed, or bumped the head
+      if ((this.onGround && this.velocityY < 0) || (this.velocityY > 0 && moved.y < move.y - 1e-4)) {
+        this.velocityY = 0;
+      }
     }
+
+    eye.x += moved.x;
+    eye.y += moved.y;
+    eye.z += moved.z;
+    this.body.setNextKinematicTranslation(this.getBodyCenter(eye));
+    this.lastEye.copy(eye);
+  }
+
+  private teleport(): void {
+    this.body.setTranslation(this.getBodyCenter(this.camera.position), true);
+    this.lastEye.copy(this.camera.position);
+    this.velocityY = 0;
+  }
+
+  private getBodyCenter(eye: THREE.Vector3): RAPIER.Vector3 {
+    return new RAPIER.Vector3(eye.x, eye.y - EYE_ABOVE_CENTER, eye.z);
   }
 }
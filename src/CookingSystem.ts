@@ -1,4 +1,6 @@
-import type { CropType } from './CropSystem';
+import type { CropType } from './Crops';
+import type { Inventory } from './Inventory';
+import type { ItemId } from './Items';
 
 export type RecipeId =
   | 'bread'
@@ -9,7 +11,7 @@ export type RecipeId =
 
 export type MealType = RecipeId;
 
-interface Recipe {
+export interface Recipe {
   id: RecipeId;
   name: string;
   description: string;
@@ -19,7 +21,7 @@ interface Recipe {
   sellPrice: number; // Worth more than raw ingredients
 }
 
-const RECIPES: Record<RecipeId, Recipe> = {
+export const RECIPES: Record<RecipeId, Recipe> = {
   bread: {
     id: 'bread',
     name: 'Wheat Bread',
@@ -68,14 +70,6 @@ const RECIPES: Record<RecipeId, Recipe> = {
 };
 
 export class CookingSystem {
-  private cookedMeals: Record<RecipeId, number> = {
-    bread: 0,
-    vegetable_stew: 0,
-    carrot_soup: 0,
-    tomato_sauce: 0,
-    farm_feast: 0,
-  };
-
   constructor() {}
 
   getRecipe(id: RecipeId): Recipe {
@@ -86,20 +80,11 @@ export class CookingSystem {
     return Object.values(RECIPES);
   }
 
-  canCook(
-    recipeId: RecipeId,
-    harvested: Record<CropType, number>,
-    resources: Record<'EGG' | 'MILK' | 'WOOL', number>
-  ): boolean {
+  canCook(recipeId: RecipeId, inventory: Inventory): boolean {
     const recipe = RECIPES[recipeId];
 
-    for (const [ingredient, required] of Object.entries(recipe.ingredients)) {
-      const available =
-        ingredient === 'EGG' || ingredient === 'MILK' || ingredient === 'WOOL'
-          ? resources[ingredient]
-          : harvested[ingredient as CropType];
-
-      if ((available || 0) < (required || 0)) {
+    for (const [ingredient, required] of Object.entries(recipe.ingredients) as [ItemId, number][]) {
+      if (!inventory.has(ingredient, required)) {
         return false;
       }
     }
@@ -107,42 +92,18 @@ export class CookingSystem {
     return true;
   }
 
-  cook(
-    recipeId: RecipeId,
-    harvested: Record<CropType, number>,
-    resources: Record<'EGG' | 'MILK' | 'WOOL', number>
-  ): { success: boolean; meal?: Recipe } {
-    if (!this.canCook(recipeId, harvested, resources)) {
+  // Use up the ingredients and put the meal in the inventory
+  cook(recipeId: RecipeId, inventory: Inventory): { success: boolean; meal?: Recipe } {
+    if (!this.canCook(recipeId, inventory) || inventory.getSpaceFor(recipeId) < 1) {
       return { success: false };
     }
 
     const recipe = RECIPES[recipeId];
-
-    // Deduct ingredients (this will be done in main.ts to update the actual inventories)
-    this.cookedMeals[recipeId]++;
-
-    return { success: true, meal: recipe };
-  }
-
-  getMealCount(recipeId: RecipeId): number {
-    return this.cookedMeals[recipeId];
-  }
-
-  getTotalMeals(): number {
-    return Object.values(this.cookedMeals).reduce((sum, count) => sum + count, 0);
-  }
-
-  getCookedMeals(): Record<RecipeId, number> {
-    return { ...this.cookedMeals };
-  }
-
-  sellMeal(recipeId: RecipeId, amount: number = 1): number {
-    if (this.cookedMeals[recipeId] < amount) {
-      return 0;
+    for (const [ingredient, required] of Object.entries(recipe.ingredients) as [ItemId, number][]) {
+      inventory.remove(ingredient, required);
     }
+    inventory.add(recipeId, 1);
 
-    this.cookedMeals[recipeId] -= amount;
-    const recipe = RECIPES[recipeId];
-    return recipe.sellPrice * amount;
+    return { success: true, meal: recipe };
   }
 }
@@ -20,6 +20,9 @@ export const CreatureResources: Record<CreatureType, { type: ResourceType; coold
   PIG: { type: null, cooldown: 0 }, // Pigs don't produce resources
 };
 
+const SCARED_SPEED = 2.5; // Running away from thunder
+const SCARED_DURATION = 3;
+
 export class Creature {
   mesh: THREE.Group;
   rigidBody: RAPIER.RigidBody;
@@ -29,6 +32,7 @@ export class Creature {
   private moveDirection: THREE.Vector3 = new THREE.Vector3();
   private moveDuration: number = 2; // Change direction every 2 seconds
   private moveSpeed: number = 0.5; // Slow wandering speed
+  private scared: boolean = false;
 
   // Resource collection properties
   private resourceTimer: number = 0;
@@ -214,6 +218,7 @@ export class Creature {
     // Random duration between 1-4 seconds
     this.moveDuration = 1 + Math.random() * 3;
     this.moveTimer = 0;
+    this.scared = false;
 
     // Sometimes stand still
     if (Math.random() < 0.3) {
@@ -221,6 +226,18 @@ export class Creature {
     }
   }
 
+  // Bolt straight away from a fright for a few seconds, then go back to wandering
+  scare(from: THREE.Vector3): void {
+    this.moveDirection.set(this.mesh.position.x - from.x, 0, this.mesh.position.z - from.z);
+    if (this.moveDirection.lengthSq() === 0) {
+      this.moveDirection.set(1, 0, 0);
+    }
+    this.moveDirection.normalize();
+    this.moveDuration = SCARED_DURATION;
+    this.moveTimer = 0;
+    this.scared = true;
+  }
+
   update(deltaTime: number): void {
     // Update movement timer
     this.moveTimer += deltaTime;
@@ -232,10 +249,11 @@ export class Creature {
     // Apply movement
     if (this.moveDirection.length() > 0) {
       const velocity = this.rigidBody.linvel();
+      const speed = this.scared ? SCARED_SPEED : this.moveSpeed;
       const newVelocity = {
-        x: this.moveDirection.x * this.moveSpeed,
+        x: this.moveDirection.x * speed,
         y: velocity.y, // Keep existing Y velocity (gravity)
-        z: this.moveDirection.z * this.moveSpeed,
+        z: this.moveDirection.z * speed,
       };
       this.rigidBody.setLinvel(newVelocity, true);
 
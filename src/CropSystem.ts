@@ -1,133 +1,255 @@
 import * as THREE from 'three';
 import { Block } from './Block';
+import type { VoxelWorld } from './VoxelWorld';
+import type { Inventory, ItemStack } from './Inventory';
+import type { SoilSystem } from './SoilSystem';
+import type { Season } from './EventSystem';
+import { getCrop, isCropType } from './Crops';
+import type { CropType } from './Crops';
+import { getSeedItem } from './Items';
+import type { ItemId } from './Items';
+import { VOXEL_SIZE, VoxelGrid, chunkCoord, gridPosFromWorld } from './VoxelGrid';
+
+const WILT_DAYS_TO_DEATH = 3;
+const WILTED_COLOR = 0x8b7d4b; // Yellowed and dried
+const DEAD_COLOR = 0x4a3f35;
 
-export type CropType = 'WHEAT' | 'CARROT' | 'TOMATO';
-
-interface CropData {
-  growthDays: number; // Days to fully grow
-  seedColor: number;
-  matureColor: number;
-  harvestYield: number;
+interface PlantedCrop {
+  blocks: Block[]; // The planted cell first, then any stacked on top of it by tall stages
+  type: CropType;
+  plantedDay: number;
+  growth: number; // 0 (just planted) to 1 (fully grown)
+  growthStage: number; // Index into the crop's stages; the last one is ripe
+  daysRipe: number;
+  wiltDays: number; // Days spent out of season or overripe; the crop dies at WILT_DAYS_TO_DEATH
+  dead: boolean; // Stays in the ground until it is cleared
+  cramped: boolean; // Couldn't grow last night for something in the way above
+  position: { x: number; y: number; z: number }; // Of the planted cell
 }
 
-const CROP_TYPES: Record<CropType, CropData> = {
-  WHEAT: {
-    growthDays: 3,
-    seedColor: 0x8b7355, // Brown seeds
-    matureColor: 0xf0e68c, // Golden wheat
-    harvestYield: 3,
-  },
-  CARROT: {
-    growthDays: 2,
-    seedColor: 0x8b7355,
-    matureColor: 0xff8c00, // Orange
-    harvestYield: 2,
-  },
-  TOMATO: {
-    growthDays: 4,
-    seedColor: 0x8b7355,
-    matureColor: 0xff0000, // Red
-    harvestYield: 4,
-  },
-};
+// What a harvest took, so it can be undone
+export interface HarvestResult {
+  type: CropType;
+  amount: number; // Put in the inventory
+  seeds: number; // Put in the inventory
+  leftovers: ItemStack[]; // Picked but didn't fit; left for the caller to drop on the ground
+  regrowing: boolean; // The plant stayed in the ground to ripen again
+  position: { x: number; y: number; z: number }; // Where it was planted
+  daysRipe: number; // As it was when picked
+  wiltDays: number;
+}
 
-interface PlantedCrop {
-  block: Block;
+export interface SavedCrop {
   type: CropType;
   plantedDay: number;
-  growthStage: number; // 0-3 (0=seed, 3=mature)
+  growth: number;
+  growthStage: number;
+  daysRipe: number;
+  wiltDays: number;
+  dead: boolean;
   position: { x: number; y: number; z: number };
 }
 
+export interface CropSaveState {
+  plantedCrops: SavedCrop[];
+}
+
 export class CropSystem {
   private scene: THREE.Scene;
+  private world: VoxelWorld;
   private plantedCrops: PlantedCrop[] = [];
-  private inventory: Record<CropType, number> = {
-    WHEAT: 5,
-    CARROT: 3,
-    TOMATO: 2,
-  };
-  private harvestedCrops: Record<CropType, number> = {
-    WHEAT: 0,
-    CARROT: 0,
-    TOMATO: 0,
-  };
-
-  constructor(scene: THREE.Scene) {
+  private cropGrid: VoxelGrid<PlantedCrop> = new VoxelGrid();
+  private inventory: Inventory; // Seeds come from here and harvests go here
+  private soil: SoilSystem; // Crops grow in the tilled tile under them
+
+  constructor(scene: THREE.Scene, world: VoxelWorld, inventory: Inventory, soil: SoilSystem) {
     this.scene = scene;
+    this.world = world;
+    this.inventory = inventory;
+    this.soil = soil;
   }
 
   // Plant a seed at location
   plantSeed(x: number, y: number, z: number, cropType: CropType, currentDay: number): boolean {
     // Check if player has seeds
-    if (this.inventory[cropType] <= 0) {
+    if (!this.inventory.has(getSeedItem(cropType))) {
       return false;
     }
 
-    // Check if already planted here
-    const existing = this.plantedCrops.find(
-      c => Math.abs(c.position.x - x) < 0.1 &&
-           Math.abs(c.position.z - z) < 0.1 &&
-           Math.abs(c.position.y - y) < 0.1
-    );
-    if (existing) return false;
-
-    // Create seed block
-    const seedBlock = new Block(
-      this.scene,
-      x,
-      y,
-      z,
-      CROP_TYPES[cropType].seedColor,
-      true
-    );
+    // Check if already planted or built here
+    if (this.getCropAt(x, y, z) || this.world.isOccupied(x, y, z)) return false;
+
+    // Seeds only go into tilled soil
+    if (!this.soil.getTile(x, y - VOXEL_SIZE, z)) return false;
+
+    this.addCrop(x, y, z, cropType, currentDay, 0);
+
+    // Use seed from inventory
+    this.inventory.remove(getSeedItem(cropType), 1);
 
+    return true;
+  }
+
+  private addCrop(
+    x: number,
+    y: number,
+    z: number,
+    cropType: CropType,
+    plantedDay: number,
+    growth: number
+  ): PlantedCrop {
     // Track planted crop
-    this.plantedCrops.push({
-      block: seedBlock,
+    const crop: PlantedCrop = {
+      blocks: [],
       type: cropType,
-      plantedDay: currentDay,
-      growthStage: 0,
+      plantedDay,
+      growth,
+      growthStage: this.getStage(cropType, growth),
+      daysRipe: 0,
+      wiltDays: 0,
+      dead: false,
+      cramped: false,
       position: { x, y, z },
-    });
+    };
+    this.plantedCrops.push(crop);
+    this.addCropBlock(crop);
+    this.updateCropVisual(crop);
+    return crop;
+  }
 
-    // Use seed from inventory
-    this.inventory[cropType]--;
+  // Stack another block on top of the crop
+  private addCropBlock(crop: PlantedCrop): void {
+    const { x, y, z } = crop.position;
+    const blockY = y + crop.blocks.length * VOXEL_SIZE;
+    const block = new Block(this.scene, x, blockY, z, getCrop(crop.type).stages[0].blocks[0].color, true);
+    this.world.insertBlock(block);
+    crop.blocks.push(block);
+    const cell = gridPosFromWorld(x, blockY, z);
+    this.cropGrid.set(cell.x, cell.y, cell.z, crop);
+  }
+
+  private removeTopCropBlock(crop: PlantedCrop): void {
+    const block = crop.blocks.pop()!;
+    this.world.removeBlock(block);
+    const cell = gridPosFromWorld(block.position.x, block.position.y, block.position.z);
+    this.cropGrid.delete(cell.x, cell.y, cell.z);
+  }
+
+  // Whether the cells a crop of this many blocks needs are its own or empty
+  private hasRoom(crop: PlantedCrop, height: number): boolean {
+    return this.isClearAbove(crop.position, crop.blocks.length, height);
+  }
 
+  // Whether the cells from `from` to `height` blocks up from a planted cell are empty
+  private isClearAbove(position: { x: number; y: number; z: number }, from: number, height: number): boolean {
+    const { x, y, z } = position;
+    for (let i = from; i < height; i++) {
+      const blockY = y + i * VOXEL_SIZE;
+      if (this.getCropAt(x, blockY, z) || this.world.isOccupied(x, blockY, z)) return false;
+    }
     return true;
   }
 
-  // Update crop growth on new day
-  onNewDay(currentDay: number): void {
-    this.plantedCrops.forEach(crop => {
-      const daysGrown = currentDay - crop.plantedDay;
-      const cropData = CROP_TYPES[crop.type];
+  private getHeight(crop: PlantedCrop): number {
+    if (crop.dead) return 1;
+    return getCrop(crop.type).stages[crop.growthStage].blocks.length;
+  }
 
-      // Calculate growth stage (0-3)
-      const newStage = Math.min(3, Math.floor((daysGrown / cropData.growthDays) * 4));
+  // How fast a crop grows this season; 0 if it can't grow at all
+  getSeasonRate(cropType: CropType, season: Season): number {
+    return getCrop(cropType).seasons[season];
+  }
 
-      if (newStage !== crop.growthStage) {
-        crop.growthStage = newStage;
-        this.updateCropVisual(crop);
+  // Update crop growth on new day, by as much as the season and the soil under each crop allow.
+  // Out of season, or left ripe for too long, a crop wilts instead and eventually dies.
+  // Perennials rest through the seasons they can't grow in and just drop overripe fruit.
+  // A crop whose next stage is taller waits until the cells above it are clear.
+  onNewDay(season: Season): void {
+    this.plantedCrops.forEach(crop => {
+      if (crop.dead) return;
+      const cropData = getCrop(crop.type);
+      const seasonRate = cropData.seasons[season];
+      const ripe = crop.growth >= 1;
+      const overripe = ripe && crop.daysRipe >= cropData.ripeDays;
+      crop.cramped = false;
+
+      if (overripe && cropData.perennial) {
+        this.startRegrowing(crop);
+        return;
       }
+      if ((seasonRate === 0 && !cropData.perennial) || overripe) {
+        crop.wiltDays++;
+        crop.dead = crop.wiltDays >= WILT_DAYS_TO_DEATH;
+      } else if (!ripe) {
+        const { x, y, z } = crop.position;
+        const rate = this.soil.getGrowthRate(x, y - VOXEL_SIZE, z) * seasonRate;
+        const growth = Math.min(1, crop.growth + rate / cropData.growthDays);
+        const growthStage = this.getStage(crop.type, growth);
+        if (this.hasRoom(crop, cropData.stages[growthStage].blocks.length)) {
+          crop.growth = growth;
+          crop.growthStage = growthStage;
+        } else {
+          crop.cramped = true;
+        }
+      }
+      if (ripe) {
+        crop.daysRipe++;
+      }
+
+      this.updateCropVisual(crop);
     });
   }
 
-  private updateCropVisual(crop: PlantedCrop): void {
-    const cropData = CROP_TYPES[crop.type];
+  isGrowing(crop: PlantedCrop): boolean {
+    return !crop.dead && crop.growth < 1;
+  }
 
-    // Interpolate color from seed to mature
-    const t = crop.growthStage / 3;
-    const color = this.lerpColor(cropData.seedColor, cropData.matureColor, t);
+  isPerennial(cropType: CropType): boolean {
+    return getCrop(cropType).perennial === true;
+  }
+
+  isRipe(crop: PlantedCrop): boolean {
+    return crop.growthStage === getCrop(crop.type).stages.length - 1;
+  }
+
+  // The growing stages split the growth evenly; the ripe stage only comes at full growth
+  private getStage(cropType: CropType, growth: number): number {
+    const ripeStage = getCrop(cropType).stages.length - 1;
+    if (growth >= 1) return ripeStage;
+    return Math.min(ripeStage - 1, Math.floor(growth * ripeStage));
+  }
 
-    // Update block color
-    if (crop.block.mesh.material instanceof THREE.MeshStandardMaterial) {
-      crop.block.mesh.material.color.setHex(color);
+  private updateCropVisual(crop: PlantedCrop): void {
+    const stage = getCrop(crop.type).stages[crop.growthStage];
+
+    // Stack or take off blocks to the stage's height, as far as there's room
+    const height = this.getHeight(crop);
+    while (crop.blocks.length > height) {
+      this.removeTopCropBlock(crop);
+    }
+    while (crop.blocks.length < height && this.hasRoom(crop, crop.blocks.length + 1)) {
+      this.addCropBlock(crop);
     }
 
-    // Scale grows slightly (visual feedback)
-    const scale = 0.5 + t * 0.2; // 0.5 -> 0.7
-    crop.block.mesh.scale.set(scale, scale + 0.3, scale);
+    const wilt = crop.wiltDays / WILT_DAYS_TO_DEATH;
+    crop.blocks.forEach((block, i) => {
+      const look = stage.blocks[i];
+
+      // The stage's color, turning toward dried-out as it wilts
+      let color = look.color;
+      if (crop.dead) {
+        color = DEAD_COLOR;
+      } else if (wilt > 0) {
+        color = this.lerpColor(color, WILTED_COLOR, wilt);
+      }
+      block.setColor(color);
+
+      // Wilting crops droop at the top and dead ones collapse
+      const [width, blockHeight] = look.size;
+      const top = i === crop.blocks.length - 1;
+      const droop = crop.dead ? 0.4 : top ? 1 - wilt * 0.3 : 1;
+      block.mesh.scale.set(width, blockHeight * droop, width);
+    });
   }
 
   private lerpColor(color1: number, color2: number, t: number): number {
@@ -136,74 +258,234 @@ export class CropSystem {
     return c1.lerp(c2, t).getHex();
   }
 
-  // Harvest mature crop
-  harvestCrop(x: number, y: number, z: number): CropType | null {
-    const cropIndex = this.plantedCrops.findIndex(
-      c => Math.abs(c.position.x - x) < 0.3 &&
-           Math.abs(c.position.z - z) < 0.3 &&
-           Math.abs(c.position.y - y) < 0.3
-    );
+  // Harvest a ripe crop. Crops that regrow stay in the ground and ripen again; the rest are
+  // pulled up and give back some seeds.
+  harvestCrop(x: number, y: number, z: number): HarvestResult | null {
+    const crop = this.getCropAt(x, y, z);
+    if (!crop || crop.dead || !this.isRipe(crop)) return null;
+
+    const cropData = getCrop(crop.type);
+    const [fewest, most] = cropData.yield;
+    const amount = fewest + Math.floor(Math.random() * (most - fewest + 1));
+    const regrowing = cropData.regrowDays !== undefined;
+    const seeds = regrowing ? 0 : Math.floor(amount / 2);
+
+    // Only what fits in the inventory counts as taken; the rest is handed back as leftovers
+    const leftovers: ItemStack[] = [];
+    const take = (item: ItemId, count: number): number => {
+      const left = this.inventory.add(item, count);
+      if (left > 0) leftovers.push({ item, count: left });
+      return count - left;
+    };
+    const taken = take(crop.type, amount);
+    const seedsTaken = take(getSeedItem(crop.type), seeds);
+    const { daysRipe, wiltDays } = crop;
+    this.pick(crop, regrowing);
+
+    return {
+      type: crop.type,
+      amount: taken,
+      seeds: seedsTaken,
+      leftovers,
+      regrowing,
+      position: { ...crop.position },
+      daysRipe,
+      wiltDays,
+    };
+  }
 
-    if (cropIndex === -1) return null;
+  // Redo a harvest with the same pickings; its leftovers were dropped the first time round
+  reharvestCrop(harvest: HarvestResult): boolean {
+    const { type, amount, seeds } = harvest;
+    const { x, y, z } = harvest.position;
+    const crop = this.getCropAt(x, y, z);
+    if (!crop || crop.type !== type || crop.dead || !this.isRipe(crop)) return false;
+
+    // All or nothing, so a later undo takes back exactly this harvest
+    const seedItem = getSeedItem(type);
+    if (this.inventory.getSpaceFor(type) < amount) return false;
+    this.inventory.add(type, amount);
+    const seedsLeft = this.inventory.add(seedItem, seeds);
+    if (seedsLeft > 0) {
+      this.inventory.remove(seedItem, seeds - seedsLeft);
+      this.inventory.remove(type, amount);
+      return false;
+    }
 
-    const crop = this.plantedCrops[cropIndex];
+    this.pick(crop, harvest.regrowing);
+    return true;
+  }
 
-    // Check if mature (stage 3)
-    if (crop.growthStage < 3) {
-      return null; // Not ready to harvest
+  private pick(crop: PlantedCrop, regrowing: boolean): void {
+    if (regrowing) {
+      this.startRegrowing(crop);
+    } else {
+      this.removeCrop(crop);
     }
+  }
 
-    // Harvest!
-    const cropType = crop.type;
-    const yield_ = CROP_TYPES[cropType].harvestYield;
+  // Back to the stage a crop that regrows picks up from after it's been picked
+  private startRegrowing(crop: PlantedCrop): void {
+    const cropData = getCrop(crop.type);
+    crop.growth = Math.max(0, 1 - cropData.regrowDays! / cropData.growthDays);
+    crop.growthStage = this.getStage(crop.type, crop.growth);
+    crop.daysRipe = 0;
+    crop.wiltDays = 0;
+    this.updateCropVisual(crop);
+  }
 
-    // Add to harvest inventory
-    this.harvestedCrops[cropType] += yield_;
+  // Pull a crop out with a hoe, whatever state it's in; returns it so it can be put back
+  digUpCrop(x: number, y: number, z: number): SavedCrop | null {
+    const crop = this.getCropAt(x, y, z);
+    if (!crop) return null;
+    const saved = this.toSaved(crop);
+    this.removeCrop(crop);
+    return saved;
+  }
 
-    // Give back some seeds
-    this.inventory[cropType] += Math.floor(yield_ / 2);
+  // Undo a digging up
+  replantCrop(saved: SavedCrop): boolean {
+    const { x, y, z } = saved.position;
+    if (this.getCropAt(x, y, z) || this.world.isOccupied(x, y, z)) return false;
+    this.restoreCrop(saved);
+    return true;
+  }
 
-    // Remove crop
-    crop.block.destroy();
-    this.plantedCrops.splice(cropIndex, 1);
+  // Dead crops have to be pulled out before anything else can be planted there
+  clearDeadCrop(x: number, y: number, z: number): boolean {
+    const crop = this.getCropAt(x, y, z);
+    if (!crop || !crop.dead) return false;
+    this.removeCrop(crop);
+    return true;
+  }
 
-    return cropType;
+  // Undo a clearing
+  restoreDeadCrop(x: number, y: number, z: number, cropType: CropType, plantedDay: number): boolean {
+    if (this.getCropAt(x, y, z) || this.world.isOccupied(x, y, z)) return false;
+    const crop = this.addCrop(x, y, z, cropType, plantedDay, 0);
+    crop.wiltDays = WILT_DAYS_TO_DEATH;
+    crop.dead = true;
+    this.updateCropVisual(crop);
+    return true;
   }
 
-  getInventory(): Record<CropType, number> {
-    return { ...this.inventory };
+  // Undo a planting: pull the crop back out and return its seed, if there's room for it
+  unplantSeed(x: number, y: number, z: number): boolean {
+    const crop = this.getCropAt(x, y, z);
+    if (!crop || this.inventory.getSpaceFor(getSeedItem(crop.type)) < 1) return false;
+    this.removeCrop(crop);
+    this.inventory.add(getSeedItem(crop.type), 1);
+    return true;
+  }
+
+  // Undo a harvest: hand back the yield and make the crop ripe again where it stood
+  unharvestCrop(harvest: HarvestResult, plantedDay: number): boolean {
+    const { type, amount, seeds } = harvest;
+    const { x, y, z } = harvest.position;
+    const seedItem = getSeedItem(type);
+    if (!this.inventory.has(type, amount) || !this.inventory.has(seedItem, seeds)) return false;
+
+    // The ripe stage has to fit at its full height again
+    const ripeHeight = getCrop(type).stages[this.getStage(type, 1)].blocks.length;
+    let crop = this.getCropAt(x, y, z);
+    if (harvest.regrowing) {
+      if (!crop || crop.type !== type || crop.dead || !this.hasRoom(crop, ripeHeight)) return false;
+    } else if (crop || !this.isClearAbove(harvest.position, 0, ripeHeight)) {
+      return false;
+    }
+
+    this.inventory.remove(type, amount);
+    this.inventory.remove(seedItem, seeds);
+    crop ??= this.addCrop(x, y, z, type, plantedDay, 1);
+    crop.growth = 1;
+    crop.growthStage = this.getStage(type, 1);
+    crop.daysRipe = harvest.daysRipe;
+    crop.wiltDays = harvest.wiltDays;
+    this.updateCropVisual(crop);
+    return true;
+  }
+
+  private removeCrop(crop: PlantedCrop): void {
+    while (crop.blocks.length > 0) {
+      this.removeTopCropBlock(crop);
+    }
+    this.plantedCrops.splice(this.plantedCrops.indexOf(crop), 1);
   }
 
-  getHarvestedCrops(): Record<CropType, number> {
-    return { ...this.harvestedCrops };
+  // Crops whose soil was broken or fell away go with it; returns them so they can be put back
+  update(): SavedCrop[] {
+    const pulledUp: SavedCrop[] = [];
+    for (let i = this.plantedCrops.length - 1; i >= 0; i--) {
+      const crop = this.plantedCrops[i];
+      const { x, y, z } = crop.position;
+      const cell = gridPosFromWorld(x, y, z);
+      // Soil in unloaded chunks isn't there to check
+      if (!this.world.isAreaLoaded(chunkCoord(cell.x), chunkCoord(cell.z))) continue;
+      if (!this.soil.getTile(x, y - VOXEL_SIZE, z)) {
+        pulledUp.push(this.toSaved(crop));
+        this.removeCrop(crop);
+      }
+    }
+    return pulledUp;
   }
 
-  // Check if position has a crop
+  // Check if position has a crop (any of its blocks, for tall ones)
   getCropAt(x: number, y: number, z: number): PlantedCrop | null {
-    return this.plantedCrops.find(
-      c => Math.abs(c.position.x - x) < 0.3 &&
-           Math.abs(c.position.z - z) < 0.3 &&
-           Math.abs(c.position.y - y) < 0.3
-    ) || null;
+    const cell = gridPosFromWorld(x, y, z);
+    return this.cropGrid.get(cell.x, cell.y, cell.z) || null;
   }
 
   // Get status of crop for UI
   getCropStatus(crop: PlantedCrop): string {
-    const stages = ['🌱 Seedling', '🌿 Growing', '🌾 Almost Ready', '✨ Ready to Harvest!'];
-    return stages[crop.growthStage];
+    if (crop.dead) return '💀 Dead - break it to clear the soil';
+    const stage = this.isRipe(crop) ? '✨ Ready to Harvest!' : `🌱 ${getCrop(crop.type).stages[crop.growthStage].name}`;
+    if (crop.wiltDays > 0) return `🥀 Wilting - ${stage}`;
+    if (crop.cramped) return `🚫 No room above to grow - ${stage}`;
+    return stage;
   }
 
-  // Add seeds to inventory (quest reward)
-  addSeeds(cropType: CropType, amount: number): void {
-    this.inventory[cropType] += amount;
+  getSaveState(): CropSaveState {
+    return {
+      plantedCrops: this.plantedCrops.map(crop => this.toSaved(crop)),
+    };
   }
 
-  // Deduct harvested crops (quest completion)
-  deductHarvestedCrops(cropType: CropType, amount: number): boolean {
-    if (this.harvestedCrops[cropType] >= amount) {
-      this.harvestedCrops[cropType] -= amount;
-      return true;
-    }
-    return false;
+  // Replace all planted crops with saved state
+  loadSaveState(state: CropSaveState): void {
+    [...this.plantedCrops].forEach(crop => this.removeCrop(crop));
+
+    state.plantedCrops.forEach(saved => {
+      // Crops whose definition has been removed are dropped
+      if (!isCropType(saved.type)) return;
+      this.restoreCrop(saved);
+    });
+  }
+
+  private toSaved(crop: PlantedCrop): SavedCrop {
+    return {
+      type: crop.type,
+      plantedDay: crop.plantedDay,
+      growth: crop.growth,
+      growthStage: crop.growthStage,
+      daysRipe: crop.daysRipe,
+      wiltDays: crop.wiltDays,
+      dead: crop.dead,
+      position: { ...crop.position },
+    };
+  }
+
+  private restoreCrop(saved: SavedCrop): void {
+    const crop = this.addCrop(
+      saved.position.x,
+      saved.position.y,
+      saved.position.z,
+      saved.type,
+      saved.plantedDay,
+      saved.growth
+    );
+    crop.daysRipe = saved.daysRipe;
+    crop.wiltDays = saved.wiltDays;
+    crop.dead = saved.dead;
+    this.updateCropVisual(crop);
   }
 }
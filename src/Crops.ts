@@ -0,0 +1,153 @@
+import type { Season } from './EventSystem';
+
+// Crops the code names itself (recipes, starting seeds); each must have a definition file
+const BUILT_IN_CROPS = ['WHEAT', 'CARROT', 'TOMATO'] as const;
+
+// The id of a crop definition; also the item id of its harvest. Ids from data files are branded
+// once they've been checked (see isCropType), so item id typos still fail to type-check.
+export type CropType = (typeof BUILT_IN_CROPS)[number] | (string & { readonly __brand: 'CropType' });
+
+const SEASONS: Season[] = ['SPRING', 'SUMMER', 'FALL', 'WINTER'];
+const MAX_HEIGHT = 4; // Blocks a crop can stack up to
+
+// One block of a crop at some stage
+export interface CropStageBlock {
+  color: number;
+  size: [number, number]; // Width and height as a share of a block
+}
+
+export interface CropStage {
+  name: string;
+  blocks: CropStageBlock[]; // From the ground up; tall stages need the cells above free
+}
+
+// A crop as data; definition files live in src/crops/*.json (colors written as "#rrggbb")
+export interface CropDefinition {
+  id: CropType; // Upper case; its seeds are the item `${id}_SEEDS`
+  name: string;
+  icon: string;
+  growthDays: number; // Days to fully grow on well-watered, fertile soil
+  seasons: Record<Season, number>; // Growth speed by season; 0 means it withers (or rests) instead
+  ripeDays: number; // Days a ripe crop keeps before it starts to wilt
+  stages: CropStage[]; // From just planted to ripe; only the last one can be harvested
+  yield: [number, number]; // Fewest and most picked per harvest
+  seedCost: number; // Coins per seed at the market
+  sellPrice: number; // Coins per harvested crop at the market
+  regrowDays?: number; // Ripe again this many days after a harvest instead of being pulled up
+  perennial?: boolean; // Rests out of season and drops overripe fruit instead of wilting; needs regrowDays
+  seedName?: string; // What its seeds are called at the market, e.g. "Apple Sapling"
+}
+
+function isColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value);
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && value > 0;
+}
+
+// Check a crop loaded from JSON; throws with the file and problem on bad data
+export function parseCropDefinition(data: unknown, source: string): CropDefinition {
+  const fail = (problem: string): never => {
+    throw new Error(`Crop definition ${source}: ${problem}`);
+  };
+  if (!data || typeof data !== 'object') fail('not an object');
+  const crop = data as Record<string, unknown>;
+
+  if (typeof crop.id !== 'string' || !/^[A-Z][A-Z0-9_]*$/.test(crop.id)) fail('"id" must be upper case, like "WHEAT"');
+  if (typeof crop.name !== 'string' || crop.name === '') fail('missing "name"');
+  if (typeof crop.icon !== 'string' || crop.icon === '') fail('missing "icon"');
+  if (!isPositive(crop.growthDays)) fail('"growthDays" must be above 0');
+  if (!isPositive(crop.ripeDays)) fail('"ripeDays" must be above 0');
+  if (crop.regrowDays !== undefined && !isPositive(crop.regrowDays)) fail('"regrowDays" must be above 0');
+  if (crop.perennial !== undefined && typeof crop.perennial !== 'boolean') fail('"perennial" must be true or false');
+  if (crop.perennial && crop.regrowDays === undefined) fail('a perennial crop needs "regrowDays"');
+  if (crop.seedName !== undefined && (typeof crop.seedName !== 'string' || crop.seedName === '')) {
+    fail('"seedName" must be a name');
+  }
+
+  const seasons = crop.seasons as Record<string, unknown> | undefined;
+  if (!seasons || typeof seasons !== 'object') fail('missing "seasons"');
+  SEASONS.forEach((season) => {
+    const rate = seasons![season];
+    if (typeof rate !== 'number' || rate < 0) fail(`"seasons" needs a growth speed of 0 or more for ${season}`);
+  });
+
+  const stages = crop.stages;
+  if (!Array.isArray(stages) || stages.length < 2) fail('"stages" needs at least a planted and a ripe stage');
+  const parsedStages = (stages as Record<string, unknown>[]).map((stage, i): CropStage => {
+    if (typeof stage.name !== 'string') fail(`stage ${i} is missing "name"`);
+    // A one-block stage can give its color and size directly instead of a "blocks" list
+    const blocks = stage.blocks ?? [{ color: stage.color, size: stage.size }];
+    if (!Array.isArray(blocks) || blocks.length < 1 || blocks.length > MAX_HEIGHT) {
+      fail(`stage ${i} "blocks" must list 1 to ${MAX_HEIGHT} blocks`);
+    }
+    const list = blocks as Record<string, unknown>[];
+    return {
+      name: stage.name as string,
+      blocks: list.map((block, j): CropStageBlock => {
+        const where = list.length > 1 ? `stage ${i} block ${j}` : `stage ${i}`;
+        if (!isColor(block.color)) fail(`${where} "color" must look like "#a0785a"`);
+        const size = block.size;
+        if (!Array.isArray(size) || size.length !== 2 || !size.every((v) => isPositive(v) && v <= 1)) {
+          fail(`${where} "size" must be a width and height between 0 and 1`);
+        }
+        return {
+          color: parseInt((block.color as string).slice(1), 16),
+          size: size as [number, number],
+        };
+      }),
+    };
+  });
+
+  const range = crop.yield;
+  if (
+    !Array.isArray(range) ||
+    range.length !== 2 ||
+    !range.every((v) => Number.isInteger(v) && v >= 1) ||
+    range[0] > range[1]
+  ) {
+    fail('"yield" must be the fewest and most crops picked, both whole numbers from 1');
+  }
+  if (typeof crop.seedCost !== 'number' || crop.seedCost < 0) fail('"seedCost" must be 0 or more');
+  if (typeof crop.sellPrice !== 'number' || crop.sellPrice < 0) fail('"sellPrice" must be 0 or more');
+
+  return { ...(crop as unknown as CropDefinition), stages: parsedStages };
+}
+
+const cropFiles = import.meta.glob('./crops/*.json', { eager: true, import: 'default' });
+const crops: Map<CropType, CropDefinition> = new Map();
+Object.entries(cropFiles).forEach(([path, data]) => {
+  const crop = parseCropDefinition(data, path);
+  if (crops.has(crop.id)) {
+    throw new Error(`Crop definition ${path}: "${crop.id}" is already defined`);
+  }
+  crops.set(crop.id, crop);
+});
+BUILT_IN_CROPS.forEach((id) => {
+  if (!crops.has(id)) {
+    throw new Error(`Crop definition for "${id}" is missing from src/crops`);
+  }
+});
+
+export function getCrop(type: CropType): CropDefinition {
+  const crop = crops.get(type);
+  if (!crop) {
+    throw new Error(`Unknown crop "${type}"`);
+  }
+  return crop;
+}
+
+// Saves and neighbors can mention crops whose files have since been removed
+export function isCropType(type: string): type is CropType {
+  return crops.has(type as CropType);
+}
+
+export function getCropTypes(): CropType[] {
+  return Array.from(crops.keys());
+}
+
+// Crops that grow at all in the season
+export function getCropsInSeason(season: Season): CropType[] {
+  return getCropTypes().filter((type) => getCrop(type).seasons[season] > 0);
+}
@@ -1,4 +1,7 @@
-import type { CropType } from './CropSystem';
+import { getCropTypes, getCropsInSeason } from './Crops';
+import type { CropType } from './Crops';
+import { ITEMS } from './Items';
+import type { ItemId } from './Items';
 
 export type EventType = 'MARKET' | 'SPRING_FESTIVAL' | 'SUMMER_FESTIVAL' | 'FALL_FESTIVAL' | 'WINTER_FESTIVAL';
 export type Season = 'SPRING' | 'SUMMER' | 'FALL' | 'WINTER';
@@ -43,33 +46,24 @@ const EVENT_DATA: Record<EventType, EventData> = {
   },
 };
 
-// Crop and resource prices at market
-export const MARKET_PRICES: Record<CropType | 'EGG' | 'MILK' | 'WOOL', number> = {
-  WHEAT: 5,
-  CARROT: 8,
-  TOMATO: 10,
-  EGG: 3,
-  MILK: 6,
-  WOOL: 12,
-};
-
 export interface ActiveEvent {
   type: EventType;
   startDay: number;
   endDay: number;
 }
 
+export interface EventSaveState {
+  lastMarketDay: number;
+  activeEvent: ActiveEvent | null;
+}
+
 export class EventSystem {
   private activeEvent: ActiveEvent | null = null;
   private lastMarketDay: number = 0;
-  private coins: number = 0; // Player's currency
   private onEventStart: ((event: ActiveEvent) => void) | null = null;
   private onEventEnd: ((event: ActiveEvent) => void) | null = null;
 
-  constructor() {
-    // Start with some coins
-    this.coins = 50;
-  }
+  constructor() {}
 
   update(currentDay: number): void {
     // Check if current event has ended
@@ -165,16 +159,13 @@ export class EventSystem {
     return EVENT_DATA[type];
   }
 
-  // Market functionality
-  sellItem(itemType: CropType | 'EGG' | 'MILK' | 'WOOL', amount: number): number {
+  // Market functionality: what the merchant pays, in coins (0 for items they don't buy)
+  getSalePrice(item: ItemId, amount: number): number {
     if (!this.isMarketActive()) {
       return 0;
     }
 
-    const price = MARKET_PRICES[itemType];
-    const earnings = price * amount;
-    this.coins += earnings;
-    return earnings;
+    return (ITEMS[item].sellPrice ?? 0) * amount;
   }
 
   isMarketActive(): boolean {
@@ -186,10 +177,6 @@ export class EventSystem {
     return ['SPRING_FESTIVAL', 'SUMMER_FESTIVAL', 'FALL_FESTIVAL', 'WINTER_FESTIVAL'].includes(this.activeEvent.type);
   }
 
-  getCoins(): number {
-    return this.coins;
-  }
-
   // Festival rewards
   claimFestivalReward(type: EventType): { seeds?: { type: CropType; amount: number }; coins?: number } | null {
     if (!this.activeEvent || this.activeEvent.type !== type) {
@@ -199,13 +186,13 @@ export class EventSystem {
     switch (type) {
       case 'SPRING_FESTIVAL':
         // Bonus seeds for planting
-        return { seeds: { type: 'WHEAT', amount: 5 }, coins: 20 };
+        return { seeds: { type: this.pickSeasonalCrop('SPRING'), amount: 5 }, coins: 20 };
       case 'SUMMER_FESTIVAL':
         // Bonus coins for harvest
         return { coins: 50 };
       case 'FALL_FESTIVAL':
         // Mixed rewards
-        return { seeds: { type: 'CARROT', amount: 3 }, coins: 30 };
+        return { seeds: { type: this.pickSeasonalCrop('FALL'), amount: 3 }, coins: 30 };
       case 'WINTER_FESTIVAL':
         // Bonus coins for community
         return { coins: 40 };
@@ -214,6 +201,26 @@ export class EventSystem {
     }
   }
 
+  // Festival seeds are for something that can be planted straight away
+  private pickSeasonalCrop(season: Season): CropType {
+    const crops = getCropsInSeason(season);
+    const choices = crops.length > 0 ? crops : getCropTypes();
+    return choices[Math.floor(Math.random() * choices.length)];
+  }
+
+  getSaveState(): EventSaveState {
+    return {
+      lastMarketDay: this.lastMarketDay,
+      activeEvent: this.activeEvent ? { ...this.activeEvent } : null,
+    };
+  }
+
+  // Restore state without firing event start callbacks
+  loadSaveState(state: EventSaveState): void {
+    this.lastMarketDay = state.lastMarketDay;
+    this.activeEvent = state.activeEvent ? { ...state.activeEvent } : null;
+  }
+
   registerEventCallbacks(
     onStart: (event: ActiveEvent) => void,
     onEnd: (event: ActiveEvent) => void
@@ -0,0 +1,29 @@
+export type GameMode = 'creative' | 'survival';
+
+export interface GameModeRules {
+  name: string;
+  description: string;
+  flying: boolean; // Can fly (toggled by double-tapping Space) instead of only walking with gravity
+  unlimitedBlocks: boolean; // Placing costs nothing and broken blocks aren't collected
+  instantBreak: boolean; // Every block breaks on the first hit, whatever its hardness
+  buildingTools: boolean; // Undo/redo and blueprints (they would duplicate blocks in survival)
+}
+
+export const GAME_MODES: Record<GameMode, GameModeRules> = {
+  creative: {
+    name: '🕊️ Creative',
+    description: 'Unlimited blocks, flying and instant breaking',
+    flying: true,
+    unlimitedBlocks: true,
+    instantBreak: true,
+    buildingTools: true,
+  },
+  survival: {
+    name: '⛏️ Survival',
+    description: 'Collect blocks by breaking them and walk on your own two feet',
+    flying: false,
+    unlimitedBlocks: false,
+    instantBreak: false,
+    buildingTools: false,
+  },
+};
@@ -2,29 +2,51 @@ import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import { getPhysicsWorld } from './physics';
 
+// Ground plane edge length; it follows the player, so it only has to cover the loaded world
+const GROUND_SIZE = 200;
+// Recenter in steps of this many world units rather than every frame
+const FOLLOW_STEP = 8;
+
 export class Ground {
   mesh: THREE.Mesh;
+  private rigidBody: RAPIER.RigidBody;
+  private topY: number;
+
+  // topY is the height of the ground's top face; it should sit on a grid cell boundary
+  constructor(scene: THREE.Scene, topY: number = -0.25) {
+    this.topY = topY;
 
-  constructor(scene: THREE.Scene) {
     // Create visual mesh - large flat plane
-    const geometry = new THREE.PlaneGeometry(100, 100);
+    const geometry = new THREE.PlaneGeometry(GROUND_SIZE, GROUND_SIZE);
     const material = new THREE.MeshStandardMaterial({
       color: 0x228b22, // Forest green
       side: THREE.DoubleSide,
     });
     this.mesh = new THREE.Mesh(geometry, material);
-    this.mesh.rotation.x = -Math.PI / 2; // Rotate to be horizontal (y=0)
-    this.mesh.position.y = 0;
+    this.mesh.rotation.x = -Math.PI / 2; // Rotate to be horizontal
+    this.mesh.position.y = topY;
     this.mesh.receiveShadow = true;
     scene.add(this.mesh);
 
     // Create static physics collider
     const world = getPhysicsWorld();
-    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed().setTranslation(0, 0, 0);
-    const rigidBody = world.createRigidBody(rigidBodyDesc);
+    // Top face on a cell boundary so resting blocks line up with grid rows
+    const rigidBodyDesc = RAPIER.RigidBodyDesc.fixed().setTranslation(0, topY - 0.1, 0);
+    this.rigidBody = world.createRigidBody(rigidBodyDesc);
 
     // Create a large cuboid collider for the ground (very thin in Y)
-    const colliderDesc = RAPIER.ColliderDesc.cuboid(50, 0.1, 50);
-    world.createCollider(colliderDesc, rigidBody);
+    const colliderDesc = RAPIER.ColliderDesc.cuboid(GROUND_SIZE / 2, 0.1, GROUND_SIZE / 2);
+    world.createCollider(colliderDesc, this.rigidBody);
+  }
+
+  // Keep the plane centered under the player as they travel
+  follow(position: THREE.Vector3): void {
+    const x = Math.round(position.x / FOLLOW_STEP) * FOLLOW_STEP;
+    const z = Math.round(position.z / FOLLOW_STEP) * FOLLOW_STEP;
+    if (x === this.mesh.position.x && z === this.mesh.position.z) return;
+
+    this.mesh.position.x = x;
+    this.mesh.position.z = z;
+    this.rigidBody.setTranslation({ x, y: this.topY - 0.1, z }, true);
   }
 }
@@ -0,0 +1,384 @@
+// Input bindings are strings: keyboard codes ('KeyW', 'Space'), chords with Ctrl ('Ctrl+KeyZ'),
+// mouse buttons ('Mouse0'), the wheel ('WheelUp') and standard-mapping gamepad buttons ('Pad0')
+
+// Which set of bindings applies: blueprint keys only work with the blueprint tool out, and menu
+// keys take over the number row while a menu is waiting for a choice
+export type InputContext = 'gameplay' | 'blueprint' | 'menu';
+
+type Slot = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+export type HotbarAction = `hotbar_${Slot}`;
+export type MenuOptionAction = `menu_option_${Slot}`;
+
+export type Action =
+  | 'move_forward'
+  | 'move_backward'
+  | 'move_left'
+  | 'move_right'
+  | 'jump'
+  | 'descend'
+  | 'break'
+  | 'place'
+  | 'hotbar_next'
+  | 'hotbar_previous'
+  | HotbarAction
+  | 'open_backpack'
+  | 'sleep'
+  | 'open_market'
+  | 'open_achievements'
+  | 'open_cooking'
+  | 'toggle_blueprint'
+  | 'cycle_camera'
+  | 'weather_forecast'
+  | 'undo'
+  | 'redo'
+  | 'pause'
+  | 'blueprint_rotate'
+  | 'blueprint_mirror'
+  | 'blueprint_save'
+  | 'blueprint_load'
+  | 'blueprint_export'
+  | 'blueprint_import'
+  | MenuOptionAction
+  | 'menu_close';
+
+export interface ActionDefinition {
+  label: string;
+  contexts: InputContext[];
+  keys: string[]; // Default keyboard and mouse bindings
+  pad: string[]; // Default gamepad bindings
+}
+
+const ANYWHERE: InputContext[] = ['gameplay', 'blueprint', 'menu'];
+const PLAYING: InputContext[] = ['gameplay', 'blueprint'];
+const SLOTS: Slot[] = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+export const MENU_OPTION_COUNT = SLOTS.length;
+
+function action(label: string, contexts: InputContext[], keys: string[], pad: string[] = []): ActionDefinition {
+  return { label, contexts, keys, pad };
+}
+
+export const ACTIONS: Record<Action, ActionDefinition> = {
+  move_forward: action('Move forward', ANYWHERE, ['KeyW']),
+  move_backward: action('Move backward', ANYWHERE, ['KeyS']),
+  move_left: action('Move left', ANYWHERE, ['KeyA']),
+  move_right: action('Move right', ANYWHERE, ['KeyD']),
+  jump: action('Jump / fly up', ANYWHERE, ['Space'], ['Pad0']),
+  descend: action('Fly down', ANYWHERE, ['ShiftLeft', 'ShiftRight'], ['Pad11']),
+  break: action('Break / harvest / collect', ANYWHERE, ['Mouse0'], ['Pad7']),
+  place: action('Place / plant', ANYWHERE, ['Mouse2'], ['Pad6']),
+  hotbar_next: action('Next hotbar slot', PLAYING, ['WheelDown'], ['Pad5']),
+  hotbar_previous: action('Previous hotbar slot', PLAYING, ['WheelUp'], ['Pad4']),
+  ...(Object.fromEntries(
+    SLOTS.map((slot) => [`hotbar_${slot}`, action(`Hotbar slot ${slot}`, PLAYING, [`Digit${slot}`])])
+  ) as Record<HotbarAction, ActionDefinition>),
+  open_backpack: action('Backpack', PLAYING, ['KeyE'], ['Pad3']),
+  sleep: action('Sleep', PLAYING, ['KeyB']),
+  open_market: action('Market / festival', PLAYING, ['KeyM']),
+  open_achievements: action('Achievements', PLAYING, ['KeyH']),
+  open_cooking: action('Cooking', PLAYING, ['KeyC'], ['Pad2']),
+  toggle_blueprint: action('Blueprint tool (creative)', PLAYING, ['KeyV']),
+  cycle_camera: action('Camera view', PLAYING, ['KeyT'], ['Pad8']),
+  weather_forecast: action('Weather forecast', PLAYING, ['KeyG'], ['Pad12']),
+  undo: action('Undo (creative)', PLAYING, ['Ctrl+KeyZ']),
+  redo: action('Redo (creative)', PLAYING, ['Ctrl+KeyY', 'Ctrl+Shift+KeyZ']),
+  pause: action('Pause', ANYWHERE, ['Escape'], ['Pad9']),
+  blueprint_rotate: action('Rotate blueprint', ['blueprint'], ['KeyR']),
+  blueprint_mirror: action('Mirror blueprint', ['blueprint'], ['KeyF']),
+  blueprint_save: action('Save blueprint', ['blueprint'], ['KeyK']),
+  blueprint_load: action('Next saved blueprint', ['blueprint'], ['KeyL']),
+  blueprint_export: action('Export blueprint', ['blueprint'], ['KeyJ']),
+  blueprint_import: action('Import blueprint', ['blueprint'], ['KeyO']),
+  ...(Object.fromEntries(
+    SLOTS.map((slot) => [`menu_option_${slot}`, action(`Menu option ${slot}`, ['menu'], [`Digit${slot}`])])
+  ) as Record<MenuOptionAction, ActionDefinition>),
+  menu_close: action('Close menu', ['menu'], ['KeyC'], ['Pad1']),
+};
+
+const PAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'Left Stick', 'Right Stick',
+  'D-pad Up', 'D-pad Down', 'D-pad Left', 'D-pad Right',
+];
+
+const SETTINGS_KEY = 'cropcroftcraft-settings';
+const STICK_DEADZONE = 0.2;
+
+export function isPadBinding(binding: string): boolean {
+  return binding.startsWith('Pad');
+}
+
+// Readable name for a binding, e.g. 'Ctrl+KeyZ' -> 'Ctrl+Z'
+export function describeBinding(binding: string): string {
+  if (isPadBinding(binding)) {
+    return `Pad ${PAD_BUTTON_NAMES[Number(binding.slice(3))] ?? binding.slice(3)}`;
+  }
+  return binding
+    .split('+')
+    .map((part) => {
+      if (part === 'Mouse0') return 'Left Click';
+      if (part === 'Mouse1') return 'Middle Click';
+      if (part === 'Mouse2') return 'Right Click';
+      if (part === 'WheelUp') return 'Wheel Up';
+      if (part === 'WheelDown') return 'Wheel Down';
+      if (part === 'ShiftLeft') return 'Left Shift';
+      if (part === 'ShiftRight') return 'Right Shift';
+      if (part === 'Escape') return 'Esc';
+      return part.replace(/^Key|^Digit/, '');
+    })
+    .join('+');
+}
+
+function getDefaultBindings(): Record<Action, string[]> {
+  const bindings = {} as Record<Action, string[]>;
+  (Object.keys(ACTIONS) as Action[]).forEach((name) => {
+    bindings[name] = [...ACTIONS[name].keys, ...ACTIONS[name].pad];
+  });
+  return bindings;
+}
+
+// Turns keyboard, mouse and gamepad input into actions for the current context. Held actions
+// are polled with isActive(); presses go to the action callbacks. Mouse bindings only count
+// while the pointer is locked to the game. Bindings can be changed and are kept in settings.
+// On-screen touch controls feed in through the same actions and axes.
+export class InputManager {
+  private element: HTMLElement;
+  private context: InputContext = 'gameplay';
+  private bindings: Record<Action, string[]>;
+  private held: Set<string> = new Set(); // Keys, mouse buttons and pad buttons that are down
+  private padButtons: boolean[] = [];
+  private moveAxis = { x: 0, y: 0 }; // Left stick
+  private lookAxis = { x: 0, y: 0 }; // Right stick
+  private touchMoveAxis = { x: 0, y: 0 }; // Virtual joystick
+  private lookDelta = { x: 0, y: 0 }; // Touch look-drag pixels not yet applied
+  private touchHeld: Set<Action> = new Set(); // Actions held by on-screen controls
+  private freePointer: boolean = false;
+  private onAction: ((action: Action) => void)[] = [];
+  // Set while waiting for the player to press a new binding
+  private onCapture: ((binding: string | null) => void) | null = null;
+
+  constructor(element: HTMLElement) {
+    this.element = element;
+    this.bindings = this.loadBindings();
+
+    window.addEventListener('keydown', (event) => {
+      const binding = event.ctrlKey || event.metaKey ? `Ctrl+${event.shiftKey ? 'Shift+' : ''}${event.code}` : event.code;
+      if (this.onCapture) {
+        event.preventDefault();
+        if (event.repeat || ['ControlLeft', 'ControlRight', 'MetaLeft', 'MetaRight'].includes(event.code)) return;
+        this.finishCapture(event.code === 'Escape' ? null : binding);
+        return;
+      }
+      this.held.add(event.code);
+      if (!event.repeat && this.press(binding)) {
+        event.preventDefault();
+      }
+    });
+    window.addEventListener('keyup', (event) => this.held.delete(event.code));
+    // Keys let go while the window was in the background never send keyup
+    window.addEventListener('blur', () => this.held.clear());
+
+    window.addEventListener('mousedown', (event) => {
+      if (this.onCapture) {
+        this.finishCapture(`Mouse${event.button}`);
+        return;
+      }
+      if (!this.isMouseOnGame(event)) return;
+      this.held.add(`Mouse${event.button}`);
+      this.press(`Mouse${event.button}`);
+    });
+    window.addEventListener('mouseup', (event) => this.held.delete(`Mouse${event.button}`));
+    document.addEventListener('pointerlockchange', () => {
+      if (!this.isPointerLocked()) {
+        [0, 1, 2].forEach((button) => this.held.delete(`Mouse${button}`));
+      }
+    });
+
+    window.addEventListener('wheel', (event) => {
+      if (event.deltaY === 0) return;
+      const binding = event.deltaY > 0 ? 'WheelDown' : 'WheelUp';
+      if (this.onCapture) {
+        this.finishCapture(binding);
+      } else if (this.isMouseOnGame(event)) {
+        this.press(binding);
+      }
+    });
+  }
+
+  getContext(): InputContext {
+    return this.context;
+  }
+
+  setContext(context: InputContext): void {
+    this.context = context;
+  }
+
+  // Held down right now, in the current context
+  isActive(name: Action): boolean {
+    if (!ACTIONS[name].contexts.includes(this.context)) return false;
+    return this.touchHeld.has(name) || this.bindings[name].some((binding) => this.held.has(binding));
+  }
+
+  // Analog stick positions, -1 to 1 (up is negative y)
+  getMoveAxis(): { x: number; y: number } {
+    const x = Math.max(-1, Math.min(1, this.moveAxis.x + this.touchMoveAxis.x));
+    const y = Math.max(-1, Math.min(1, this.moveAxis.y + this.touchMoveAxis.y));
+    return { x, y };
+  }
+
+  getLookAxis(): { x: number; y: number } {
+    return { ...this.lookAxis };
+  }
+
+  // With a free pointer (the top-down view) mouse bindings count for presses on the game
+  // itself instead of needing pointer lock
+  setFreePointer(free: boolean): void {
+    this.freePointer = free;
+  }
+
+  setTouchMoveAxis(x: number, y: number): void {
+    this.touchMoveAxis = { x, y };
+  }
+
+  addLookDelta(dx: number, dy: number): void {
+    this.lookDelta.x += dx;
+    this.lookDelta.y += dy;
+  }
+
+  // Look-drag since the last call, in pixels
+  takeLookDelta(): { x: number; y: number } {
+    const delta = this.lookDelta;
+    this.lookDelta = { x: 0, y: 0 };
+    return delta;
+  }
+
+  // For on-screen buttons: fires the action like a key press and holds it until released
+  pressAction(name: Action): void {
+    if (!ACTIONS[name].contexts.includes(this.context)) return;
+    this.touchHeld.add(name);
+    this.onAction.forEach((callback) => callback(name));
+  }
+
+  releaseAction(name: Action): void {
+    this.touchHeld.delete(name);
+  }
+
+  getBindings(name: Action): string[] {
+    return [...this.bindings[name]];
+  }
+
+  // First keyboard or mouse binding, for on-screen hints
+  getKeyLabel(name: Action): string {
+    const binding = this.bindings[name].find((b) => !isPadBinding(b));
+    return binding ? describeBinding(binding) : 'unbound';
+  }
+
+  // Replace an action's keyboard/mouse bindings, or its gamepad bindings, with one binding.
+  // Any other action using it in an overlapping context loses it.
+  rebind(name: Action, binding: string): void {
+    const pad = isPadBinding(binding);
+    (Object.keys(ACTIONS) as Action[]).forEach((other) => {
+      if (other === name) return;
+      if (!ACTIONS[other].contexts.some((context) => ACTIONS[name].contexts.includes(context))) return;
+      this.bindings[other] = this.bindings[other].filter((b) => b !== binding);
+    });
+    this.bindings[name] = [...this.bindings[name].filter((b) => isPadBinding(b) !== pad), binding];
+    this.saveBindings();
+  }
+
+  resetBindings(): void {
+    this.bindings = getDefaultBindings();
+    this.saveBindings();
+  }
+
+  // The next key, mouse button, wheel turn or pad button goes to the callback instead of
+  // triggering anything; Escape cancels with null
+  captureNextInput(callback: (binding: string | null) => void): void {
+    this.onCapture = callback;
+  }
+
+  registerActionCallback(callback: (action: Action) => void): void {
+    this.onAction.push(callback);
+  }
+
+  // Gamepads have no events for buttons and sticks, so poll once per frame
+  update(): void {
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    const pad = pads.find((p) => p && p.connected) ?? null;
+
+    const buttons = pad ? pad.buttons.map((button) => button.pressed) : [];
+    const count = Math.max(buttons.length, this.padButtons.length);
+    for (let i = 0; i < count; i++) {
+      const pressed = buttons[i] ?? false;
+      if (pressed === (this.padButtons[i] ?? false)) continue;
+      const binding = `Pad${i}`;
+      if (!pressed) {
+        this.held.delete(binding);
+      } else if (this.onCapture) {
+        this.finishCapture(binding);
+      } else {
+        this.held.add(binding);
+        this.press(binding);
+      }
+    }
+    this.padButtons = buttons;
+
+    this.moveAxis = this.readStick(pad, 0);
+    this.lookAxis = this.readStick(pad, 2);
+  }
+
+  // Fires every action bound to this in the current context; true if there was one
+  private press(binding: string): boolean {
+    const fired = (Object.keys(ACTIONS) as Action[]).filter(
+      (name) => ACTIONS[name].contexts.includes(this.context) && this.bindings[name].includes(binding)
+    );
+    fired.forEach((name) => this.onAction.forEach((callback) => callback(name)));
+    return fired.length > 0;
+  }
+
+  private finishCapture(binding: string | null): void {
+    const callback = this.onCapture!;
+    this.onCapture = null;
+    callback(binding);
+  }
+
+  private readStick(pad: Gamepad | null, firstAxis: number): { x: number; y: number } {
+    if (!pad) return { x: 0, y: 0 };
+    const x = pad.axes[firstAxis] ?? 0;
+    const y = pad.axes[firstAxis + 1] ?? 0;
+    if (Math.hypot(x, y) < STICK_DEADZONE) return { x: 0, y: 0 };
+    return { x, y };
+  }
+
+  private isPointerLocked(): boolean {
+    return document.pointerLockElement === this.element;
+  }
+
+  private isMouseOnGame(event: MouseEvent): boolean {
+    return this.isPointerLocked() || (this.freePointer && event.target === this.element);
+  }
+
+  // Saved bindings override the defaults; actions added since keep their defaults
+  private loadBindings(): Record<Action, string[]> {
+    const bindings = getDefaultBindings();
+    try {
+      const settings = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+      Object.entries(settings.keyBindings ?? {}).forEach(([name, saved]) => {
+        if (name in ACTIONS && Array.isArray(saved)) {
+          bindings[name as Action] = saved.filter((binding) => typeof binding === 'string');
+        }
+      });
+    } catch (error) {
+      console.error('Ignoring unreadable settings:', error);
+    }
+    return bindings;
+  }
+
+  private saveBindings(): void {
+    try {
+      const settings = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+      settings.keyBindings = this.bindings;
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Failed to save key bindings:', error);
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { ITEMS } from './Items';
+import type { ItemCategory, ItemId } from './Items';
+
+export const HOTBAR_SIZE = 9;
+export const BACKPACK_SIZE = 27;
+const SLOT_COUNT = HOTBAR_SIZE + BACKPACK_SIZE;
+
+// What a new farm starts with
+const STARTING_ITEMS: Partial<Record<ItemId, number>> = {
+  WHEAT_SEEDS: 5,
+  CARROT_SEEDS: 3,
+  TOMATO_SEEDS: 2,
+  HOE: 1,
+  WATERING_CAN: 1,
+  COINS: 50,
+};
+
+export interface ItemStack {
+  item: ItemId;
+  count: number;
+}
+
+export interface InventorySaveState {
+  slots: (ItemStack | null)[]; // Hotbar first, then the backpack
+  coins: number;
+}
+
+// Lay item counts out into slots, splitting them into full stacks
+export function createInventoryState(counts: Partial<Record<ItemId, number>>): InventorySaveState {
+  const slots: ItemStack[] = [];
+  let coins = 0;
+  (Object.keys(counts) as ItemId[]).forEach((item) => {
+    let count = counts[item] ?? 0;
+    if (!(item in ITEMS)) return;
+    if (ITEMS[item].category === 'currency') {
+      coins += count;
+      return;
+    }
+    while (count > 0) {
+      const stack = Math.min(count, ITEMS[item].maxStack);
+      slots.push({ item, count: stack });
+      count -= stack;
+    }
+  });
+  return { slots, coins };
+}
+
+// Everything the player carries: a hotbar (slots 0-8, one of them selected), the backpack
+// behind it, and a purse of coins. Slot 0 of the hotbar is the first to fill up.
+export class Inventory {
+  private slots: (ItemStack | null)[] = new Array(SLOT_COUNT).fill(null);
+  private coins: number = 0;
+  private selectedSlot: number = 0;
+  // Fired with an item's new total whenever it is gained or spent
+  private onItemChange: ((item: ItemId, total: number) => void)[] = [];
+  // Fired whenever slots are filled, emptied, moved or selected
+  private onSlotsChange: (() => void)[] = [];
+
+  constructor() {
+    this.loadSaveState(createInventoryState(STARTING_ITEMS));
+  }
+
+  getCount(item: ItemId): number {
+    if (ITEMS[item].category === 'currency') return this.coins;
+    return this.slots.reduce((total, stack) => total + (stack?.item === item ? stack.count : 0), 0);
+  }
+
+  has(item: ItemId, amount: number = 1): boolean {
+    return this.getCount(item) >= amount;
+  }
+
+  getCategoryCount(category: ItemCategory): number {
+    return this.slots.reduce((total, stack) => {
+      return total + (stack && ITEMS[stack.item].category === category ? stack.count : 0);
+    }, 0);
+  }
+
+  // Room left for an item across partly filled and empty slots
+  getSpaceFor(item: ItemId): number {
+    const maxStack = ITEMS[item].maxStack;
+    if (ITEMS[item].category === 'currency') return maxStack;
+    return this.slots.reduce((space, stack) => {
+      if (!stack) return space + maxStack;
+      return space + (stack.item === item ? maxStack - stack.count : 0);
+    }, 0);
+  }
+
+  // Returns how many didn't fit
+  add(item: ItemId, amount: number): number {
+    if (amount <= 0) return 0;
+    if (ITEMS[item].category === 'currency') {
+      this.coins += amount;
+      this.emitItemChange(item);
+      return 0;
+    }
+
+    const maxStack = ITEMS[item].maxStack;
+    let left = amount;
+    // Top up existing stacks before starting new ones
+    this.slots.forEach((stack) => {
+      if (left === 0 || stack?.item !== item) return;
+      const moved = Math.min(left, maxStack - stack.count);
+      stack.count += moved;
+      left -= moved;
+    });
+    for (let i = 0; i < SLOT_COUNT && left > 0; i++) {
+      if (this.slots[i]) continue;
+      const moved = Math.min(left, maxStack);
+      this.slots[i] = { item, count: moved };
+      left -= moved;
+    }
+
+    if (left < amount) {
+      this.emitItemChange(item);
+      this.emitSlotsChange();
+    }
+    return left;
+  }
+
+  // All or nothing; returns false (and takes nothing) if there aren't enough
+  remove(item: ItemId, amount: number): boolean {
+    if (amount <= 0) return true;
+    if (!this.has(item, amount)) return false;
+    if (ITEMS[item].category === 'currency') {
+      this.coins -= amount;
+      this.emitItemChange(item);
+      return true;
+    }
+
+    // Spend from the back of the backpack first so the hotbar stays stocked
+    let left = amount;
+    for (let i = SLOT_COUNT - 1; i >= 0 && left > 0; i--) {
+      const stack = this.slots[i];
+      if (stack?.item !== item) continue;
+      const taken = Math.min(left, stack.count);
+      stack.count -= taken;
+      left -= taken;
+      if (stack.count === 0) this.slots[i] = null;
+    }
+
+    this.emitItemChange(item);
+    this.emitSlotsChange();
+    return true;
+  }
+
+  getSlot(index: number): ItemStack | null {
+    return this.slots[index];
+  }
+
+  // Replace a slot outright (the creative palette)
+  setSlot(index: number, stack: ItemStack | null): void {
+    const previous = this.slots[index];
+    this.slots[index] = stack ? { ...stack } : null;
+    if (previous) this.emitItemChange(previous.item);
+    if (stack && stack.item !== previous?.item) this.emitItemChange(stack.item);
+    this.emitSlotsChange();
+  }
+
+  // Drag and drop: merge onto a stack of the same item, otherwise swap the two slots
+  moveStack(from: number, to: number): void {
+    const source = this.slots[from];
+    const target = this.slots[to];
+    if (!source || from === to) return;
+
+    if (target && target.item === source.item) {
+      const moved = Math.min(source.count, ITEMS[source.item].maxStack - target.count);
+      target.count += moved;
+      source.count -= moved;
+      if (source.count === 0) this.slots[from] = null;
+    } else {
+      this.slots[from] = target;
+      this.slots[to] = source;
+    }
+    this.emitSlotsChange();
+  }
+
+  getSelectedSlot(): number {
+    return this.selectedSlot;
+  }
+
+  select(index: number): void {
+    this.selectedSlot = ((index % HOTBAR_SIZE) + HOTBAR_SIZE) % HOTBAR_SIZE;
+    this.emitSlotsChange();
+  }
+
+  getSelectedStack(): ItemStack | null {
+    return this.slots[this.selectedSlot];
+  }
+
+  registerItemChangeCallback(callback: (item: ItemId, total: number) => void): void {
+    this.onItemChange.push(callback);
+  }
+
+  registerSlotsChangeCallback(callback: () => void): void {
+    this.onSlotsChange.push(callback);
+  }
+
+  getSaveState(): InventorySaveState {
+    return {
+      slots: this.slots.map((stack) => (stack ? { ...stack } : null)),
+      coins: this.coins,
+    };
+  }
+
+  // Replace everything with saved state, without firing item change callbacks. Stacks of
+  // unknown items are dropped; returns whatever didn't fit in the slots
+  loadSaveState(state: InventorySaveState): ItemStack[] {
+    this.slots = new Array(SLOT_COUNT).fill(null);
+    const overflow: ItemStack[] = [];
+    state.slots.forEach((stack, i) => {
+      if (!stack || !(stack.item in ITEMS) || stack.count <= 0) return;
+      const count = i < SLOT_COUNT ? Math.min(stack.count, ITEMS[stack.item].maxStack) : 0;
+      if (count > 0) {
+        this.slots[i] = { item: stack.item, count };
+      }
+      if (count < stack.count) {
+        overflow.push({ item: stack.item, count: stack.count - count });
+      }
+    });
+    this.coins = state.coins;
+    this.emitSlotsChange();
+    return overflow;
+  }
+
+  private emitItemChange(item: ItemId): void {
+    const total = this.getCount(item);
+    this.onItemChange.forEach((callback) => callback(item, total));
+  }
+
+  private emitSlotsChange(): void {
+    this.onSlotsChange.forEach((callback) => callback());
+  }
+}
@@ -0,0 +1,180 @@
+import { ITEMS, getItemsInCategory } from './Items';
+import type { ItemId } from './Items';
+import { BACKPACK_SIZE, HOTBAR_SIZE } from './Inventory';
+import type { Inventory } from './Inventory';
+
+const SLOT_SIZE = 46; // Pixels
+
+function toCssColor(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
+
+// The hotbar along the bottom of the screen and the backpack grid that opens above it.
+// Stacks are moved by dragging them between slots; in creative the backpack also has a
+// palette of every block to drag out as a full stack.
+export class InventoryUI {
+  private inventory: Inventory;
+  private hotbar: HTMLElement;
+  private backpack: HTMLElement;
+  private palette: HTMLElement;
+  private slotElements: HTMLElement[] = []; // Indexed like the inventory's slots
+  private open: boolean = false;
+
+  constructor(inventory: Inventory) {
+    this.inventory = inventory;
+
+    this.hotbar = document.createElement('div');
+    this.hotbar.id = 'hotbar';
+    this.hotbar.style.position = 'absolute';
+    this.hotbar.style.bottom = '12px';
+    this.hotbar.style.left = '50%';
+    this.hotbar.style.transform = 'translateX(-50%)';
+    this.hotbar.style.display = 'flex';
+    this.hotbar.style.gap = '4px';
+    this.hotbar.style.padding = '4px';
+    this.hotbar.style.backgroundColor = 'rgba(0, 0, 0, 0.45)';
+    this.hotbar.style.borderRadius = '8px';
+    this.hotbar.style.zIndex = '900';
+
+    this.backpack = document.createElement('div');
+    this.backpack.id = 'backpack';
+    this.backpack.style.position = 'absolute';
+    this.backpack.style.top = '50%';
+    this.backpack.style.left = '50%';
+    this.backpack.style.transform = 'translate(-50%, -60%)';
+    this.backpack.style.padding = '16px';
+    this.backpack.style.backgroundColor = 'rgba(30, 30, 30, 0.92)';
+    this.backpack.style.border = '2px solid rgba(255, 215, 0, 0.5)';
+    this.backpack.style.borderRadius = '12px';
+    this.backpack.style.color = 'white';
+    this.backpack.style.fontFamily = 'Segoe UI, system-ui, sans-serif';
+    this.backpack.style.zIndex = '950';
+    this.backpack.style.display = 'none';
+    this.backpack.innerHTML = `
+      <div style="font-weight: bold; margin-bottom: 8px;">🎒 Backpack</div>
+      <div class="backpack-grid"></div>
+      <div class="backpack-palette"></div>
+      <div style="font-size: 11px; opacity: 0.7; margin-top: 8px;">Drag items between slots | E to close</div>
+    `;
+
+    const grid = this.backpack.querySelector('.backpack-grid') as HTMLElement;
+    grid.style.display = 'grid';
+    grid.style.gridTemplateColumns = `repeat(${HOTBAR_SIZE}, ${SLOT_SIZE}px)`;
+    grid.style.gap = '4px';
+
+    this.palette = this.backpack.querySelector('.backpack-palette') as HTMLElement;
+    this.palette.style.marginTop = '10px';
+    this.palette.style.display = 'none';
+    this.palette.innerHTML = '<div style="font-size: 12px; margin-bottom: 4px;">🕊️ Creative blocks</div>';
+    const paletteRow = document.createElement('div');
+    paletteRow.style.display = 'flex';
+    paletteRow.style.gap = '4px';
+    getItemsInCategory('block').forEach((item) => paletteRow.appendChild(this.createPaletteItem(item)));
+    this.palette.appendChild(paletteRow);
+
+    for (let i = 0; i < HOTBAR_SIZE + BACKPACK_SIZE; i++) {
+      const slot = this.createSlot(i);
+      this.slotElements.push(slot);
+      (i < HOTBAR_SIZE ? this.hotbar : grid).appendChild(slot);
+    }
+
+    // Clicks on the inventory mustn't reach the world behind it
+    [this.hotbar, this.backpack].forEach((element) => {
+      element.addEventListener('click', (e) => e.stopPropagation());
+      document.body.appendChild(element);
+    });
+
+    inventory.registerSlotsChangeCallback(() => this.render());
+    this.render();
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  toggle(): boolean {
+    this.open = !this.open;
+    this.backpack.style.display = this.open ? 'block' : 'none';
+    return this.open;
+  }
+
+  setCreative(creative: boolean): void {
+    this.palette.style.display = creative ? 'block' : 'none';
+  }
+
+  private createSlot(index: number): HTMLElement {
+    const slot = document.createElement('div');
+    this.styleCell(slot);
+
+    slot.addEventListener('dragstart', (e) => {
+      e.dataTransfer?.setData('text/plain', `slot:${index}`);
+    });
+    slot.addEventListener('dragover', (e) => e.preventDefault());
+    slot.addEventListener('drop', (e) => {
+      e.preventDefault();
+      const [source, value] = (e.dataTransfer?.getData('text/plain') ?? '').split(':');
+      if (source === 'slot') {
+        this.inventory.moveStack(Number(value), index);
+      } else if (source === 'item' && value in ITEMS) {
+        const item = value as ItemId;
+        this.inventory.setSlot(index, { item, count: ITEMS[item].maxStack });
+      }
+    });
+    if (index < HOTBAR_SIZE) {
+      slot.addEventListener('click', () => this.inventory.select(index));
+    }
+    return slot;
+  }
+
+  private createPaletteItem(item: ItemId): HTMLElement {
+    const cell = document.createElement('div');
+    this.styleCell(cell);
+    cell.draggable = true;
+    cell.title = ITEMS[item].name;
+    cell.innerHTML = this.getItemIcon(item);
+    cell.addEventListener('dragstart', (e) => {
+      e.dataTransfer?.setData('text/plain', `item:${item}`);
+    });
+    return cell;
+  }
+
+  private styleCell(cell: HTMLElement): void {
+    cell.style.position = 'relative';
+    cell.style.width = `${SLOT_SIZE}px`;
+    cell.style.height = `${SLOT_SIZE}px`;
+    cell.style.boxSizing = 'border-box';
+    cell.style.display = 'flex';
+    cell.style.alignItems = 'center';
+    cell.style.justifyContent = 'center';
+    cell.style.backgroundColor = 'rgba(255, 255, 255, 0.12)';
+    cell.style.border = '2px solid rgba(255, 255, 255, 0.25)';
+    cell.style.borderRadius = '6px';
+    cell.style.cursor = 'pointer';
+    cell.style.userSelect = 'none';
+  }
+
+  private getItemIcon(item: ItemId): string {
+    const definition = ITEMS[item];
+    if (definition.color !== undefined) {
+      return `<div style="width: 26px; height: 26px; border-radius: 4px; background: ${toCssColor(definition.color)};"></div>`;
+    }
+    return `<div style="font-size: 24px;">${definition.icon}</div>`;
+  }
+
+  private render(): void {
+    const selected = this.inventory.getSelectedSlot();
+    this.slotElements.forEach((slot, i) => {
+      const stack = this.inventory.getSlot(i);
+      slot.draggable = stack !== null;
+      slot.title = stack ? `${ITEMS[stack.item].name} (${stack.count})` : '';
+      slot.innerHTML = stack
+        ? `${this.getItemIcon(stack.item)}${
+            stack.count > 1
+              ? `<span style="position: absolute; right: 3px; bottom: 1px; font-size: 12px; color: white; text-shadow: 1px 1px 2px black;">${stack.count}</span>`
+              : ''
+          }`
+        : '';
+      slot.style.borderColor = i === selected ? '#FFD700' : 'rgba(255, 255, 255, 0.25)';
+    });
+  }
+}
@@ -0,0 +1,153 @@
+import * as THREE from 'three';
+import { ITEMS } from './Items';
+import type { ItemId } from './Items';
+import { VOXEL_SIZE, gridToWorld, worldToGrid } from './VoxelGrid';
+
+const DROP_SIZE = 0.2;
+const GRAVITY = 9.8;
+const PICKUP_DELAY = 0.5; // Seconds before a new drop can be picked up
+const PICKUP_RADIUS = 1.2; // From the middle of the player's body
+const DESPAWN_SECONDS = 300;
+
+const DROP_GEOMETRY = new THREE.BoxGeometry(DROP_SIZE, DROP_SIZE, DROP_SIZE);
+const dropMaterials: Map<ItemId, THREE.Material> = new Map();
+
+// Block items are little cubes of the block; everything else is its icon on a sprite
+function createDropMesh(item: ItemId): THREE.Object3D {
+  const definition = ITEMS[item];
+  let material = dropMaterials.get(item);
+
+  if (definition.color !== undefined) {
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({ color: definition.color });
+      dropMaterials.set(item, material);
+    }
+    const mesh = new THREE.Mesh(DROP_GEOMETRY, material);
+    mesh.castShadow = true;
+    return mesh;
+  }
+
+  if (!material) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 64;
+    canvas.height = 64;
+    const context = canvas.getContext('2d')!;
+    context.font = '48px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(definition.icon, 32, 36);
+    material = new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas) });
+    dropMaterials.set(item, material);
+  }
+  const sprite = new THREE.Sprite(material as THREE.SpriteMaterial);
+  sprite.scale.setScalar(DROP_SIZE * 1.5);
+  return sprite;
+}
+
+interface ItemDrop {
+  item: ItemId;
+  count: number;
+  mesh: THREE.Object3D;
+  position: THREE.Vector3; // Bottom of the drop; the mesh bobs above it
+  velocity: THREE.Vector3;
+  age: number;
+  pickupAt: number; // Age at which the player may take it
+}
+
+// Items lying in the world: they pop out of broken blocks, fall onto whatever is
+// underneath and go into the inventory when the player walks over them
+export class ItemDrops {
+  private scene: THREE.Scene;
+  private isSolid: (x: number, y: number, z: number) => boolean;
+  private drops: ItemDrop[] = [];
+
+  constructor(scene: THREE.Scene, isSolid: (x: number, y: number, z: number) => boolean) {
+    this.scene = scene;
+    this.isSolid = isSolid;
+  }
+
+  spawn(item: ItemId, count: number, x: number, y: number, z: number): void {
+    const angle = Math.random() * Math.PI * 2;
+    const drop: ItemDrop = {
+      item,
+      count,
+      mesh: createDropMesh(item),
+      position: new THREE.Vector3(x, y - DROP_SIZE / 2, z),
+      velocity: new THREE.Vector3(Math.cos(angle) * 0.8, 2.5, Math.sin(angle) * 0.8),
+      age: 0,
+      pickupAt: PICKUP_DELAY,
+    };
+    this.scene.add(drop.mesh);
+    this.drops.push(drop);
+    this.syncMesh(drop);
+  }
+
+  // pickUp stores the items and returns how many didn't fit
+  update(deltaTime: number, playerPosition: THREE.Vector3, pickUp: (item: ItemId, count: number) => number): void {
+    for (let i = this.drops.length - 1; i >= 0; i--) {
+      const drop = this.drops[i];
+      drop.age += deltaTime;
+
+      if (drop.age >= DESPAWN_SECONDS) {
+        this.remove(i);
+        continue;
+      }
+
+      this.move(drop, deltaTime);
+
+      if (drop.age >= drop.pickupAt && drop.position.distanceTo(playerPosition) < PICKUP_RADIUS) {
+        drop.count = pickUp(drop.item, drop.count);
+        if (drop.count === 0) {
+          this.remove(i);
+          continue;
+        }
+        // No room: try again in a moment
+        drop.pickupAt = drop.age + PICKUP_DELAY;
+      }
+
+      this.syncMesh(drop);
+    }
+  }
+
+  clear(): void {
+    for (let i = this.drops.length - 1; i >= 0; i--) {
+      this.remove(i);
+    }
+  }
+
+  // Falls until the cell below is solid and stops when it runs into a wall
+  private move(drop: ItemDrop, deltaTime: number): void {
+    const { position, velocity } = drop;
+    velocity.y -= GRAVITY * deltaTime;
+
+    const nextX = position.x + velocity.x * deltaTime;
+    const nextZ = position.z + velocity.z * deltaTime;
+    if (this.isSolid(nextX, position.y + DROP_SIZE / 2, nextZ)) {
+      velocity.x = 0;
+      velocity.z = 0;
+    } else {
+      position.x = nextX;
+      position.z = nextZ;
+    }
+
+    const nextY = position.y + velocity.y * deltaTime;
+    if (velocity.y <= 0 && this.isSolid(position.x, nextY, position.z)) {
+      // Land on top of the cell
+      position.y = gridToWorld(worldToGrid(nextY)) + VOXEL_SIZE / 2;
+      velocity.set(0, 0, 0);
+    } else {
+      position.y = nextY;
+    }
+  }
+
+  private syncMesh(drop: ItemDrop): void {
+    drop.mesh.position.copy(drop.position);
+    drop.mesh.position.y += DROP_SIZE / 2 + 0.05 + Math.sin(drop.age * 3) * 0.04;
+    drop.mesh.rotation.y = drop.age * 1.5;
+  }
+
+  private remove(index: number): void {
+    this.scene.remove(this.drops[index].mesh);
+    this.drops.splice(index, 1);
+  }
+}
@@ -0,0 +1,98 @@
+import { BlockColors } from './types';
+import type { BlockType } from './types';
+import { getCrop, getCropTypes } from './Crops';
+import type { CropType } from './Crops';
+import { RECIPES } from './CookingSystem';
+import type { RecipeId } from './CookingSystem';
+
+export type SeedItem = `${CropType}_SEEDS`;
+export type ToolItem = 'HOE' | 'WATERING_CAN';
+export type ItemId = BlockType | SeedItem | CropType | 'EGG' | 'MILK' | 'WOOL' | RecipeId | ToolItem | 'COINS';
+
+export type ItemCategory = 'block' | 'seed' | 'crop' | 'animal' | 'meal' | 'tool' | 'currency';
+
+// What a tool does to the block it's used on
+export type ToolUse = 'till' | 'water';
+
+export interface ItemDefinition {
+  name: string;
+  icon: string; // Block items show their color instead
+  color?: number;
+  category: ItemCategory;
+  maxStack: number;
+  sellPrice?: number; // Coins at the weekly market; items without a price aren't sold there
+  buyPrice?: number; // Coins to buy one at the market; only seeds are for sale
+  plants?: CropType; // Seeds: the crop they grow
+  tool?: ToolUse; // Tools: used on the targeted block instead of placing anything
+}
+
+function blockItem(type: BlockType, name: string): ItemDefinition {
+  return { name, icon: '', color: BlockColors[type], category: 'block', maxStack: 64 };
+}
+
+function seedItem(crop: CropType): ItemDefinition {
+  const { name, seedName, seedCost } = getCrop(crop);
+  return { name: seedName ?? `${name} Seeds`, icon: '🌱', category: 'seed', maxStack: 99, plants: crop, buyPrice: seedCost };
+}
+
+function cropItem(crop: CropType): ItemDefinition {
+  const { name, icon, sellPrice } = getCrop(crop);
+  return { name, icon, category: 'crop', maxStack: 99, sellPrice };
+}
+
+function mealItem(recipe: RecipeId): ItemDefinition {
+  const { name, icon, sellPrice } = RECIPES[recipe];
+  return { name, icon, category: 'meal', maxStack: 16, sellPrice };
+}
+
+// Everything but the seeds and harvests, which come from the crop definitions
+const NON_CROP_ITEMS: Record<Exclude<ItemId, CropType | SeedItem>, ItemDefinition> = {
+  DIRT: blockItem('DIRT', 'Dirt'),
+  STONE: blockItem('STONE', 'Stone'),
+  WOOD: blockItem('WOOD', 'Wood'),
+  GRASS: blockItem('GRASS', 'Grass'),
+  BRICK: blockItem('BRICK', 'Brick'),
+  SAND: blockItem('SAND', 'Sand'),
+  GLASS: blockItem('GLASS', 'Glass'),
+  COBBLESTONE: blockItem('COBBLESTONE', 'Cobblestone'),
+  PLANKS: blockItem('PLANKS', 'Planks'),
+
+  EGG: { name: 'Egg', icon: '🥚', category: 'animal', maxStack: 32, sellPrice: 3 },
+  MILK: { name: 'Milk', icon: '🥛', category: 'animal', maxStack: 32, sellPrice: 6 },
+  WOOL: { name: 'Wool', icon: '🧶', category: 'animal', maxStack: 32, sellPrice: 12 },
+
+  bread: mealItem('bread'),
+  vegetable_stew: mealItem('vegetable_stew'),
+  carrot_soup: mealItem('carrot_soup'),
+  tomato_sauce: mealItem('tomato_sauce'),
+  farm_feast: mealItem('farm_feast'),
+
+  HOE: { name: 'Hoe', icon: '⛏️', category: 'tool', maxStack: 1, tool: 'till' },
+  WATERING_CAN: { name: 'Watering Can', icon: '💧', category: 'tool', maxStack: 1, tool: 'water' },
+
+  // Coins are kept in a purse rather than in slots
+  COINS: { name: 'Coins', icon: '💰', category: 'currency', maxStack: Infinity },
+};
+
+export const ITEMS = { ...NON_CROP_ITEMS } as Record<ItemId, ItemDefinition>;
+
+function addCropItem(item: CropType | SeedItem, definition: ItemDefinition): void {
+  if (item in ITEMS) {
+    throw new Error(`Crop item "${item}" clashes with an existing item`);
+  }
+  ITEMS[item] = definition;
+}
+
+// Seeds and harvests for every crop in src/crops
+getCropTypes().forEach((crop) => {
+  addCropItem(getSeedItem(crop), seedItem(crop));
+  addCropItem(crop, cropItem(crop));
+});
+
+export function getSeedItem(crop: CropType): SeedItem {
+  return `${crop}_SEEDS`;
+}
+
+export function getItemsInCategory(category: ItemCategory): ItemId[] {
+  return (Object.keys(ITEMS) as ItemId[]).filter((item) => ITEMS[item].category === category);
+}
@@ -0,0 +1,137 @@
+import { ACTIONS, describeBinding, isPadBinding } from './Input';
+import type { Action, InputContext, InputManager } from './Input';
+
+const SECTIONS: { title: string; context: InputContext }[] = [
+  { title: 'Playing', context: 'gameplay' },
+  { title: 'Blueprint tool', context: 'blueprint' },
+  { title: 'Menus', context: 'menu' },
+];
+
+// Settings panel listing every action with its keyboard/mouse and gamepad bindings. Clicking a
+// binding waits for the next press and rebinds the action to it.
+export class KeyBindingsUI {
+  private input: InputManager;
+  private element: HTMLElement;
+  private list: HTMLElement;
+  private waitingFor: { action: Action; pad: boolean } | null = null;
+
+  constructor(input: InputManager) {
+    this.input = input;
+
+    this.element = document.createElement('div');
+    this.element.id = 'key-bindings';
+    this.element.style.position = 'fixed';
+    this.element.style.top = '50%';
+    this.element.style.left = '50%';
+    this.element.style.transform = 'translate(-50%, -50%)';
+    this.element.style.width = '520px';
+    this.element.style.maxHeight = '80vh';
+    this.element.style.overflowY = 'auto';
+    this.element.style.padding = '20px';
+    this.element.style.backgroundColor = 'rgba(20, 40, 25, 0.97)';
+    this.element.style.border = '2px solid rgba(255, 215, 0, 0.5)';
+    this.element.style.borderRadius = '12px';
+    this.element.style.color = 'white';
+    this.element.style.fontFamily = 'system-ui, -apple-system, sans-serif';
+    this.element.style.zIndex = '2100';
+    this.element.style.display = 'none';
+    this.element.innerHTML = `
+      <h3 style="margin: 0 0 6px 0; color: #FFD700;">⌨️ Key Bindings</h3>
+      <p style="margin: 0 0 12px 0; font-size: 12px; opacity: 0.75;">
+        Click a binding, then press a key, mouse button or gamepad button (Esc cancels)
+      </p>
+      <div class="bindings-list"></div>
+      <div style="margin-top: 14px; display: flex; gap: 10px; justify-content: flex-end;">
+        <button class="bindings-reset">Reset to defaults</button>
+        <button class="bindings-close">Close</button>
+      </div>
+    `;
+    this.list = this.element.querySelector('.bindings-list') as HTMLElement;
+
+    this.element.querySelectorAll('button').forEach((button) => this.styleButton(button as HTMLElement));
+    this.element.querySelector('.bindings-reset')!.addEventListener('click', () => {
+      this.input.resetBindings();
+      this.render();
+    });
+    this.element.querySelector('.bindings-close')!.addEventListener('click', () => this.hide());
+    // Clicks here mustn't reach the overlay or the world behind it
+    this.element.addEventListener('click', (e) => e.stopPropagation());
+
+    document.body.appendChild(this.element);
+  }
+
+  show(): void {
+    this.render();
+    this.element.style.display = 'block';
+  }
+
+  hide(): void {
+    this.element.style.display = 'none';
+  }
+
+  private render(): void {
+    this.list.innerHTML = '';
+    SECTIONS.forEach(({ title, context }) => {
+      const heading = document.createElement('div');
+      heading.textContent = title;
+      heading.style.margin = '10px 0 4px 0';
+      heading.style.fontWeight = 'bold';
+      heading.style.color = '#90EE90';
+      this.list.appendChild(heading);
+
+      // Actions are listed under the first context they work in
+      (Object.keys(ACTIONS) as Action[])
+        .filter((action) => ACTIONS[action].contexts[0] === context)
+        .forEach((action) => this.list.appendChild(this.createRow(action)));
+    });
+  }
+
+  private createRow(action: Action): HTMLElement {
+    const row = document.createElement('div');
+    row.style.display = 'grid';
+    row.style.gridTemplateColumns = '1fr 150px 110px';
+    row.style.gap = '6px';
+    row.style.alignItems = 'center';
+    row.style.fontSize = '13px';
+    row.style.marginBottom = '3px';
+
+    const label = document.createElement('span');
+    label.textContent = ACTIONS[action].label;
+    row.appendChild(label);
+
+    const bindings = this.input.getBindings(action);
+    [false, true].forEach((pad) => {
+      const button = document.createElement('button');
+      this.styleButton(button);
+      const waiting = this.waitingFor?.action === action && this.waitingFor.pad === pad;
+      const current = bindings.filter((binding) => isPadBinding(binding) === pad).map(describeBinding);
+      button.textContent = waiting ? 'Press…' : current.join(' / ') || '—';
+      button.addEventListener('click', () => this.startRebind(action, pad));
+      row.appendChild(button);
+    });
+    return row;
+  }
+
+  // Keyboard/mouse presses go to the key column and pad presses to the pad column
+  private startRebind(action: Action, pad: boolean): void {
+    this.waitingFor = { action, pad };
+    this.render();
+    this.input.captureNextInput((binding) => {
+      this.waitingFor = null;
+      if (binding && isPadBinding(binding) === pad) {
+        this.input.rebind(action, binding);
+      }
+      this.render();
+    });
+  }
+
+  private styleButton(button: HTMLElement): void {
+    button.style.padding = '4px 8px';
+    button.style.fontSize = '12px';
+    button.style.backgroundColor = 'rgba(0, 0, 0, 0.35)';
+    button.style.color = 'white';
+    button.style.border = '1px solid rgba(255, 255, 255, 0.3)';
+    button.style.borderRadius = '6px';
+    button.style.cursor = 'pointer';
+  }
+}
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
-import type { CropType } from './CropSystem';
+import { getCropTypes, isCropType } from './Crops';
+import type { CropType } from './Crops';
 import type { ResourceType } from './Creature';
 
 export interface Quest {
@@ -24,6 +25,13 @@ export interface NeighborData {
   houseColor: number;
 }
 
+export interface NeighborSaveState {
+  name: string;
+  friendshipLevel: number;
+  currentQuest: Quest | null;
+  lastQuestDay: number;
+}
+
 export class Neighbor {
   private name: string;
   private personality: 'friendly' | 'grumpy' | 'wise' | 'energetic';
@@ -98,13 +106,12 @@ export class Neighbor {
       };
     } else {
       // Crop quest
-      const crops: CropType[] = ['WHEAT', 'CARROT', 'TOMATO'];
+      const crops = getCropTypes();
       const cropType = crops[Math.floor(Math.random() * crops.length)];
       const amount = 3 + Math.floor(Math.random() * 4); // 3-6
 
       // Reward is seeds of random type
-      const rewardCrops: CropType[] = ['WHEAT', 'CARROT', 'TOMATO'];
-      const rewardCrop = rewardCrops[Math.floor(Math.random() * rewardCrops.length)];
+      const rewardCrop = crops[Math.floor(Math.random() * crops.length)];
 
       this.currentQuest = {
         id: questId,
@@ -222,6 +229,29 @@ export class Neighbor {
     return this.currentQuest !== null;
   }
 
+  getSaveState(): NeighborSaveState {
+    return {
+      name: this.name,
+      friendshipLevel: this.friendshipLevel,
+      currentQuest: this.currentQuest,
+      lastQuestDay: this.lastQuestDay,
+    };
+  }
+
+  loadSaveState(state: NeighborSaveState): void {
+    this.friendshipLevel = state.friendshipLevel;
+    // Quests about crops whose definition has since been removed are dropped
+    const quest = state.currentQuest;
+    this.currentQuest = quest && this.isKnownQuest(quest) ? quest : null;
+    this.lastQuestDay = state.lastQuestDay;
+  }
+
+  private isKnownQuest(quest: Quest): boolean {
+    const { itemType, reward } = quest;
+    if (quest.type === 'crop' && (itemType === null || !isCropType(itemType))) return false;
+    return reward.cropType === undefined || isCropType(reward.cropType);
+  }
+
   isNearPosition(x: number, y: number, z: number, distance: number = 3): boolean {
     return this.position.distanceTo(new THREE.Vector3(x, y, z)) < distance;
   }
@@ -0,0 +1,101 @@
+// Seeded 2D gradient noise for terrain generation
+
+// Small, fast deterministic PRNG (mulberry32); returns floats in [0, 1)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+export class Noise2D {
+  private permutation: Uint8Array = new Uint8Array(512);
+
+  constructor(seed: number) {
+    const random = createRandom(seed);
+    const table = Array.from({ length: 256 }, (_, i) => i);
+    // Fisher-Yates shuffle so every seed gets its own gradient lattice
+    for (let i = 255; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [table[i], table[j]] = [table[j], table[i]];
+    }
+    for (let i = 0; i < 512; i++) {
+      this.permutation[i] = table[i & 255];
+    }
+  }
+
+  // Perlin noise, roughly in [-1, 1]
+  sample(x: number, z: number): number {
+    const xi = Math.floor(x);
+    const zi = Math.floor(z);
+    const xf = x - xi;
+    const zf = z - zi;
+    const u = fade(xf);
+    const v = fade(zf);
+
+    const p = this.permutation;
+    const a = p[(xi & 255) + p[zi & 255]];
+    const b = p[((xi + 1) & 255) + p[zi & 255]];
+    const c = p[(xi & 255) + p[(zi + 1) & 255]];
+    const d = p[((xi + 1) & 255) + p[(zi + 1) & 255]];
+
+    return lerp(
+      lerp(this.gradient(a, xf, zf), this.gradient(b, xf - 1, zf), u),
+      lerp(this.gradient(c, xf, zf - 1), this.gradient(d, xf - 1, zf - 1), u),
+      v
+    );
+  }
+
+  // Sum of octaves at doubling frequency and halving amplitude, normalized to roughly [-1, 1]
+  fractal(x: number, z: number, octaves: number = 4): number {
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let range = 0;
+    for (let i = 0; i < octaves; i++) {
+      total += this.sample(x * frequency, z * frequency) * amplitude;
+      range += amplitude;
+      amplitude *= 0.5;
+      frequency *= 2;
+    }
+    return total / range;
+  }
+
+  private gradient(hash: number, x: number, z: number): number {
+    // Eight directions around the unit circle
+    switch (hash & 7) {
+      case 0:
+        return x + z;
+      case 1:
+        return x - z;
+      case 2:
+        return -x + z;
+      case 3:
+        return -x - z;
+      case 4:
+        return x;
+      case 5:
+        return -x;
+      case 6:
+        return z;
+      default:
+        return -z;
+    }
+  }
+}
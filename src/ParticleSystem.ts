@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 
-export type ParticleType = 'harvest' | 'collect' | 'coins' | 'heart' | 'sparkle';
+export type ParticleType = 'harvest' | 'collect' | 'coins' | 'heart' | 'sparkle' | 'debris' | 'water';
 
 interface ParticleConfig {
   color: number;
@@ -46,6 +46,22 @@ const PARTICLE_CONFIGS: Record<ParticleType, ParticleConfig> = {
     lifetime: 0.6,
     size: 0.08,
   },
+  // Chips of a broken block; spawned in the block's own color
+  debris: {
+    color: 0x8B4513,
+    count: 12,
+    speed: 1.5,
+    lifetime: 0.7,
+    size: 0.05,
+  },
+  // Drops from the watering can
+  water: {
+    color: 0x4fa3e0,
+    count: 14,
+    speed: 1.2,
+    lifetime: 0.6,
+    size: 0.05,
+  },
 };
 
 interface Particle {
@@ -63,14 +79,14 @@ export class ParticleSystem {
     this.scene = scene;
   }
 
-  spawn(type: ParticleType, x: number, y: number, z: number): void {
+  spawn(type: ParticleType, x: number, y: number, z: number, color?: number): void {
     const config = PARTICLE_CONFIGS[type];
 
     for (let i = 0; i < config.count; i++) {
       // Create particle geometry
       const geometry = new THREE.SphereGeometry(config.size, 6, 6);
       const material = new THREE.MeshBasicMaterial({
-        color: config.color,
+        color: color ?? config.color,
         transparent: true,
         opacity: 1,
       });
@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+import { EYE_HEIGHT } from './Controls';
+
+const SKIN_COLOR = 0xf1c27d;
+const SHIRT_COLOR = 0xc0392b; // Red plaid-ish farmer shirt
+const OVERALLS_COLOR = 0x2e5c8a; // Denim
+const HAT_COLOR = 0xe8c872; // Straw
+const LEG_HEIGHT = 0.75;
+const WALK_SWING = 0.6; // Radians either side at full stride
+const STRIDE = 1.2; // World units walked per full swing cycle
+
+function createPart(width: number, height: number, depth: number, color: number): THREE.Mesh {
+  const mesh = new THREE.Mesh(
+    new THREE.BoxGeometry(width, height, depth),
+    new THREE.MeshStandardMaterial({ color })
+  );
+  mesh.castShadow = true;
+  return mesh;
+}
+
+// Arms and legs hang from a pivot at the shoulder or hip so they swing from there
+function createLimb(width: number, length: number, color: number, x: number, y: number): THREE.Group {
+  const pivot = new THREE.Group();
+  pivot.position.set(x, y, 0);
+  const limb = createPart(width, length, width, color);
+  limb.position.y = -length / 2;
+  pivot.add(limb);
+  return pivot;
+}
+
+// The blocky farmer standing where the player is, seen from the third-person and top-down views.
+// It faces the way the player looks and swings its arms and legs while walking.
+export class PlayerAvatar {
+  private group: THREE.Group;
+  private leftArm: THREE.Group;
+  private rightArm: THREE.Group;
+  private leftLeg: THREE.Group;
+  private rightLeg: THREE.Group;
+  private walkPhase: number = 0;
+  private lastFeet: THREE.Vector3 = new THREE.Vector3();
+  private euler: THREE.Euler = new THREE.Euler(0, 0, 0, 'YXZ');
+
+  constructor(scene: THREE.Scene) {
+    this.group = new THREE.Group();
+
+    this.leftLeg = createLimb(0.2, LEG_HEIGHT, OVERALLS_COLOR, -0.11, LEG_HEIGHT);
+    this.rightLeg = createLimb(0.2, LEG_HEIGHT, OVERALLS_COLOR, 0.11, LEG_HEIGHT);
+    this.group.add(this.leftLeg, this.rightLeg);
+
+    const torso = createPart(0.44, 0.6, 0.24, SHIRT_COLOR);
+    torso.position.y = LEG_HEIGHT + 0.3;
+    this.group.add(torso);
+
+    this.leftArm = createLimb(0.16, 0.58, SHIRT_COLOR, -0.3, LEG_HEIGHT + 0.58);
+    this.rightArm = createLimb(0.16, 0.58, SHIRT_COLOR, 0.3, LEG_HEIGHT + 0.58);
+    this.group.add(this.leftArm, this.rightArm);
+
+    const head = createPart(0.32, 0.32, 0.32, SKIN_COLOR);
+    head.position.y = LEG_HEIGHT + 0.76;
+    this.group.add(head);
+
+    // Eyes on the front (-z, the way the camera looks) so the facing is readable from above
+    [-0.08, 0.08].forEach((x) => {
+      const eye = createPart(0.05, 0.05, 0.02, 0x222222);
+      eye.position.set(x, LEG_HEIGHT + 0.8, -0.17);
+      this.group.add(eye);
+    });
+
+    const brim = createPart(0.5, 0.04, 0.5, HAT_COLOR);
+    brim.position.y = LEG_HEIGHT + 0.94;
+    const crown = createPart(0.3, 0.14, 0.3, HAT_COLOR);
+    crown.position.y = LEG_HEIGHT + 1.02;
+    this.group.add(brim, crown);
+
+    this.group.visible = false;
+    scene.add(this.group);
+  }
+
+  setVisible(visible: boolean): void {
+    this.group.visible = visible;
+  }
+
+  // Stands under the player's eyes, turned the way they look
+  update(eye: THREE.Camera): void {
+    const feet = eye.position.clone().setY(eye.position.y - EYE_HEIGHT);
+    const walked = Math.hypot(feet.x - this.lastFeet.x, feet.z - this.lastFeet.z);
+    this.lastFeet.copy(feet);
+
+    // Teleports (loading a farm, the intro) don't count as steps
+    if (walked > 0 && walked < 1) {
+      this.walkPhase += (walked / STRIDE) * Math.PI * 2;
+    } else {
+      this.walkPhase = 0;
+    }
+    const swing = Math.sin(this.walkPhase) * WALK_SWING;
+    this.leftLeg.rotation.x = swing;
+    this.rightLeg.rotation.x = -swing;
+    this.leftArm.rotation.x = -swing;
+    this.rightArm.rotation.x = swing;
+
+    this.euler.setFromQuaternion(eye.quaternion);
+    this.group.position.copy(feet);
+    this.group.rotation.y = this.euler.y;
+  }
+}
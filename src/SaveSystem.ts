@@ -0,0 +1,251 @@
+import type { BlockType } from './types';
+import type { TimeSaveState } from './TimeManager';
+import type { CropSaveState } from './CropSystem';
+import type { SoilSaveState } from './SoilSystem';
+import type { EventSaveState } from './EventSystem';
+import type { NeighborSaveState } from './Neighbor';
+import type { AchievementSaveState } from './AchievementSystem';
+import { GAME_MODES } from './GameMode';
+import type { GameMode } from './GameMode';
+import { BACKPACK_SIZE, HOTBAR_SIZE, createInventoryState } from './Inventory';
+import type { InventorySaveState } from './Inventory';
+import { getSeedItem } from './Items';
+import type { ItemId } from './Items';
+import { isCropType } from './Crops';
+import type { CropType } from './Crops';
+import { VOXEL_SIZE } from './VoxelGrid';
+
+// Bump when the save layout changes and add a migration step below
+export const SAVE_VERSION = 7;
+
+// Error message when the player closes a file dialog without picking anything; not worth an alert
+export const IMPORT_CANCELLED = 'Import cancelled';
+
+// Version 1 farms were built before terrain was seeded; their edits only line up on the flat
+// farm lots, which are the same in every seed
+const LEGACY_TERRAIN_SEED = 1;
+
+const STORAGE_KEY = 'cropcroftcraft-save';
+
+// Before version 4 each system kept its own item counts
+interface LegacyItemCounts {
+  crops: { inventory?: Record<CropType, number>; harvestedCrops?: Record<CropType, number> };
+  events: { coins?: number };
+  animalResources?: Record<'EGG' | 'MILK' | 'WOOL', number>;
+  cooking?: Partial<Record<ItemId, number>>;
+  blocks?: Partial<Record<ItemId, number>>;
+}
+
+export interface SavedBlock {
+  x: number;
+  y: number;
+  z: number;
+  type: BlockType;
+  isStatic: boolean;
+}
+
+export interface SaveData {
+  version: number;
+  savedAt: string;
+  gameMode: GameMode;
+  time: TimeSaveState;
+  crops: CropSaveState;
+  soil: SoilSaveState;
+  events: EventSaveState;
+  neighbors: NeighborSaveState[];
+  achievements: AchievementSaveState;
+  inventory: InventorySaveState;
+  world: {
+    // Terrain seed; the same seed always generates the same hills and water
+    seed: number;
+    // Generated blocks that were broken or knocked out of place
+    removedBlocks: { x: number; y: number; z: number }[];
+    // Player-placed blocks plus generated blocks that fell somewhere else
+    placedBlocks: SavedBlock[];
+  };
+}
+
+export class SaveSystem {
+  saveToStorage(data: SaveData): boolean {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+      return true;
+    } catch (error) {
+      console.error('Failed to save farm:', error);
+      return false;
+    }
+  }
+
+  loadFromStorage(): SaveData | null {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    try {
+      return this.parse(raw);
+    } catch (error) {
+      console.error('Ignoring unreadable save:', error);
+      return null;
+    }
+  }
+
+  hasSave(): boolean {
+    return localStorage.getItem(STORAGE_KEY) !== null;
+  }
+
+  clearStorage(): void {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  // Download the save as a JSON file so farms can be shared
+  exportToFile(data: SaveData): void {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `farm-day-${data.time.dayNumber}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  // Ask the player for a JSON file and parse it
+  importFromFile(): Promise<SaveData> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = 'application/json,.json';
+      // Closing the dialog without a file fires cancel instead of change
+      input.addEventListener('cancel', () => reject(new Error(IMPORT_CANCELLED)));
+      input.addEventListener('change', () => {
+        const file = input.files?.[0];
+        if (!file) {
+          reject(new Error(IMPORT_CANCELLED));
+          return;
+        }
+        file
+          .text()
+          .then((text) => resolve(this.parse(text)))
+          .catch(reject);
+      });
+      input.click();
+    });
+  }
+
+  parse(json: string): SaveData {
+    const data = JSON.parse(json) as Partial<SaveData> | null;
+    if (!data || typeof data !== 'object' || typeof data.version !== 'number') {
+      throw new Error('Not a farm save file');
+    }
+    return this.migrate(data);
+  }
+
+  private migrate(data: Partial<SaveData>): SaveData {
+    if (data.version! > SAVE_VERSION) {
+      throw new Error(`Save version ${data.version} is newer than supported version ${SAVE_VERSION}`);
+    }
+
+    // Older versions get upgraded here in sequence
+    if (data.version === 1 && data.world) {
+      data.world = { ...data.world, seed: LEGACY_TERRAIN_SEED };
+      data.version = 2;
+    }
+    // Version 2 farms were built with free, unlimited blocks
+    if (data.version === 2) {
+      data.gameMode = 'creative';
+      data.version = 3;
+    }
+    // Version 3 farms kept seeds, crops, animal products, meals, coins and blocks apart
+    if (data.version === 3 && data.crops && data.events) {
+      const legacy = data as Partial<SaveData> & LegacyItemCounts;
+      const counts: Partial<Record<ItemId, number>> = { COINS: legacy.events.coins ?? 0 };
+      const add = (item: ItemId, count: number) => (counts[item] = (counts[item] ?? 0) + count);
+      Object.entries(legacy.crops.inventory ?? {}).forEach(([crop, count]) => {
+        if (isCropType(crop)) add(getSeedItem(crop), count);
+      });
+      [legacy.crops.harvestedCrops, legacy.animalResources, legacy.cooking, legacy.blocks].forEach((record) => {
+        Object.entries(record ?? {}).forEach(([item, count]) => add(item as ItemId, count ?? 0));
+      });
+
+      data.inventory = createInventoryState(counts);
+      delete legacy.crops.inventory;
+      delete legacy.crops.harvestedCrops;
+      delete legacy.events.coins;
+      delete legacy.animalResources;
+      delete legacy.cooking;
+      delete legacy.blocks;
+      data.version = 4;
+    }
+    // Version 4 crops grew by the calendar wherever they were planted; they now need tilled,
+    // watered soil and new tools to look after it
+    if (data.version === 4 && data.crops && data.inventory) {
+      const crops = data.crops.plantedCrops;
+      crops.forEach((crop) => (crop.growth = crop.growthStage / 4));
+      data.soil = {
+        tiles: crops.map((crop) => ({
+          position: { ...crop.position, y: crop.position.y - VOXEL_SIZE },
+          moisture: 1,
+          fertility: 1,
+        })),
+      };
+      // The tools always get a slot; a stack they push out of a full inventory is dropped
+      // next to the player when the farm loads
+      const slots = [...data.inventory.slots];
+      const slotCount = HOTBAR_SIZE + BACKPACK_SIZE;
+      (['HOE', 'WATERING_CAN'] as ItemId[]).forEach((item, i) => {
+        let index = slots.indexOf(null);
+        if (index === -1 || index >= slotCount) index = slots.length;
+        if (index >= slotCount) {
+          index = slotCount - 1 - i;
+          slots.push(slots[index]);
+        }
+        slots[index] = { item, count: 1 };
+      });
+      data.inventory.slots = slots;
+      data.version = 5;
+    }
+    // Version 5 crops never wilted
+    if (data.version === 5 && data.crops) {
+      data.crops.plantedCrops.forEach((crop) => {
+        crop.daysRipe = 0;
+        crop.wiltDays = 0;
+        crop.dead = false;
+      });
+      data.version = 6;
+    }
+    // Version 6 crops could be picked from three quarters grown; now they ripen at full growth
+    if (data.version === 6 && data.crops) {
+      data.crops.plantedCrops.forEach((crop) => {
+        if (crop.growthStage >= 3) crop.growth = 1;
+      });
+      data.version = 7;
+    }
+
+    const required: (keyof SaveData)[] = [
+      'gameMode',
+      'time',
+      'crops',
+      'soil',
+      'events',
+      'neighbors',
+      'achievements',
+      'inventory',
+      'world',
+    ];
+    for (const key of required) {
+      if (data[key] === undefined) {
+        throw new Error(`Save file is missing "${key}"`);
+      }
+    }
+
+    if (!(data.gameMode! in GAME_MODES)) {
+      throw new Error(`Unknown game mode "${data.gameMode}"`);
+    }
+
+    if (typeof data.world!.seed !== 'number') {
+      throw new Error('Save file is missing the terrain seed');
+    }
+
+    return data as SaveData;
+  }
+}
@@ -0,0 +1,249 @@
+import * as THREE from 'three';
+import type { VoxelWorld } from './VoxelWorld';
+import type { BlockType } from './types';
+import { VOXEL_SIZE, VoxelGrid, chunkCoord, gridPosFromWorld } from './VoxelGrid';
+
+const TILLABLE: BlockType[] = ['DIRT', 'GRASS'];
+const DAILY_DRYING = 0.4; // Moisture lost overnight; a watering lasts two full days
+const DAILY_DEPLETION = 0.1; // Fertility a crop takes out of its tile each day
+const FALLOW_RECOVERY = 0.05; // Fertility an empty tile gets back each day
+const DRY_MOISTURE = 0.3; // Below this crops only grow at half speed
+const MIN_FERTILITY_RATE = 0.25; // Growth speed on completely worn-out soil
+const SHELTER_HEIGHT = 32; // Cells above a tile checked for a roof that keeps the rain off
+
+// Tilled ground is drawn as a furrowed layer over the top of the block, darker when wet
+const FURROW_GEOMETRY = new THREE.BoxGeometry(VOXEL_SIZE * 0.96, 0.02, VOXEL_SIZE * 0.96);
+const FURROW_MATERIALS = {
+  dry: new THREE.MeshStandardMaterial({ color: 0xa0785a, roughness: 1 }),
+  damp: new THREE.MeshStandardMaterial({ color: 0x6f4a2c, roughness: 0.9 }),
+  wet: new THREE.MeshStandardMaterial({ color: 0x4a2f1a, roughness: 0.6 }),
+};
+
+export interface SoilTile {
+  moisture: number; // 0 (dry) to 1 (just watered)
+  fertility: number; // 0 (worn out) to 1
+  position: { x: number; y: number; z: number }; // Of the soil block
+  mesh: THREE.Mesh;
+}
+
+export interface SavedSoilTile {
+  position: { x: number; y: number; z: number };
+  moisture: number;
+  fertility: number;
+}
+
+export interface SoilSaveState {
+  tiles: SavedSoilTile[];
+}
+
+// Tilled dirt and grass that crops are planted in. Each tile dries out and is worn down by
+// the crop growing in it day by day; watering and leaving it empty for a while bring it back.
+export class SoilSystem {
+  private scene: THREE.Scene;
+  private world: VoxelWorld;
+  private tiles: SoilTile[] = [];
+  private tileGrid: VoxelGrid<SoilTile> = new VoxelGrid();
+
+  constructor(scene: THREE.Scene, world: VoxelWorld) {
+    this.scene = scene;
+    this.world = world;
+  }
+
+  // Dirt or grass with nothing on top that hasn't been tilled yet
+  canTill(x: number, y: number, z: number): boolean {
+    if (this.getTile(x, y, z)) return false;
+    return this.isSoilBlock(x, y, z) && !this.world.isOccupied(x, y + VOXEL_SIZE, z);
+  }
+
+  till(x: number, y: number, z: number): boolean {
+    if (!this.canTill(x, y, z)) return false;
+    // Freshly turned ground is at its most fertile
+    this.addTile(x, y, z, 0, 1);
+    return true;
+  }
+
+  // Undo a tilling; returns the tile so it can be put back
+  untill(x: number, y: number, z: number): SavedSoilTile | null {
+    const tile = this.getTile(x, y, z);
+    if (!tile) return null;
+    const saved = this.toSaved(tile);
+    this.removeTile(tile);
+    return saved;
+  }
+
+  // Put back a tile that was lost, as long as its block is back too
+  restoreTile(saved: SavedSoilTile): boolean {
+    const { x, y, z } = saved.position;
+    if (this.getTile(x, y, z) || !this.isSoilBlock(x, y, z)) return false;
+    this.addTile(x, y, z, saved.moisture, saved.fertility);
+    return true;
+  }
+
+  getTile(x: number, y: number, z: number): SoilTile | null {
+    const cell = gridPosFromWorld(x, y, z);
+    return this.tileGrid.get(cell.x, cell.y, cell.z) ?? null;
+  }
+
+  water(x: number, y: number, z: number): boolean {
+    const tile = this.getTile(x, y, z);
+    if (!tile) return false;
+    tile.moisture = 1;
+    this.updateTileVisual(tile);
+    return true;
+  }
+
+  // How many days' worth of growth a crop on this tile makes in a day: nothing on dry or
+  // untilled ground, half on barely damp soil, less and less as the soil wears out
+  getGrowthRate(x: number, y: number, z: number): number {
+    const tile = this.getTile(x, y, z);
+    if (!tile || tile.moisture <= 0) return 0;
+    const moistureRate = tile.moisture < DRY_MOISTURE ? 0.5 : 1;
+    const fertilityRate = MIN_FERTILITY_RATE + (1 - MIN_FERTILITY_RATE) * tile.fertility;
+    return moistureRate * fertilityRate;
+  }
+
+  // Overnight every tile dries out. Tiles that fed a growing crop lose fertility (a stalled
+  // crop on dry soil takes nothing) and ones left without a crop regain it.
+  onNewDay(hasGrowingCrop: (x: number, y: number, z: number) => boolean): void {
+    this.tiles.forEach((tile) => {
+      const { x, y, z } = tile.position;
+      let change = FALLOW_RECOVERY;
+      if (hasGrowingCrop(x, y, z)) {
+        change = tile.moisture > 0 ? -DAILY_DEPLETION : 0;
+      }
+      tile.moisture = Math.max(0, tile.moisture - DAILY_DRYING);
+      tile.fertility = Math.min(1, Math.max(0, tile.fertility + change));
+      this.updateTileVisual(tile);
+    });
+  }
+
+  // Rain soaks every tile under open sky. Returns how many tiles it reached.
+  waterExposed(): number {
+    let watered = 0;
+    this.tiles.forEach((tile) => {
+      if (this.isSheltered(tile)) return;
+      tile.moisture = 1;
+      this.updateTileVisual(tile);
+      watered++;
+    });
+    return watered;
+  }
+
+  // Moisture lost on top of the usual overnight drying, e.g. in a drought
+  dryOut(amount: number): void {
+    this.tiles.forEach((tile) => {
+      tile.moisture = Math.max(0, tile.moisture - amount);
+      this.updateTileVisual(tile);
+    });
+  }
+
+  // Tiles whose block was broken, or that something was built on (a redone placement, a
+  // blueprint, a block that fell there), go back to plain ground; returns them so they can be
+  // put back
+  update(): SavedSoilTile[] {
+    const lost: SavedSoilTile[] = [];
+    for (let i = this.tiles.length - 1; i >= 0; i--) {
+      const tile = this.tiles[i];
+      if (!this.isInLoadedArea(tile)) continue;
+      const { x, y, z } = tile.position;
+      if (!this.isSoilBlock(x, y, z) || this.isCovered(tile)) {
+        lost.push(this.toSaved(tile));
+        this.removeTile(tile);
+      }
+    }
+    return lost;
+  }
+
+  // One line for the targeted tile
+  describeTile(tile: SoilTile): string {
+    const moisture = Math.round(tile.moisture * 100);
+    const fertility = Math.round(tile.fertility * 100);
+    let hint = '';
+    if (tile.moisture <= 0) {
+      hint = ' - dry, needs water!';
+    } else if (tile.fertility < 0.3) {
+      hint = ' - worn out, leave it empty to recover';
+    }
+    return `🟫 Tilled soil | 💧 ${moisture}% | 🌿 ${fertility}%${hint}`;
+  }
+
+  getSaveState(): SoilSaveState {
+    return {
+      tiles: this.tiles.map((tile) => this.toSaved(tile)),
+    };
+  }
+
+  // Replace all tilled tiles with saved state
+  loadSaveState(state: SoilSaveState): void {
+    [...this.tiles].forEach((tile) => this.removeTile(tile));
+    state.tiles.forEach((saved) => {
+      this.addTile(saved.position.x, saved.position.y, saved.position.z, saved.moisture, saved.fertility);
+    });
+  }
+
+  private toSaved(tile: SoilTile): SavedSoilTile {
+    return {
+      position: { ...tile.position },
+      moisture: tile.moisture,
+      fertility: tile.fertility,
+    };
+  }
+
+  private addTile(x: number, y: number, z: number, moisture: number, fertility: number): SoilTile {
+    const mesh = new THREE.Mesh(FURROW_GEOMETRY, FURROW_MATERIALS.dry);
+    mesh.position.set(x, y + VOXEL_SIZE / 2 + 0.011, z);
+    mesh.receiveShadow = true;
+    this.scene.add(mesh);
+
+    const tile: SoilTile = { moisture, fertility, position: { x, y, z }, mesh };
+    this.tiles.push(tile);
+    const cell = gridPosFromWorld(x, y, z);
+    this.tileGrid.set(cell.x, cell.y, cell.z, tile);
+    this.updateTileVisual(tile);
+    return tile;
+  }
+
+  private removeTile(tile: SoilTile): void {
+    this.scene.remove(tile.mesh);
+    this.tiles.splice(this.tiles.indexOf(tile), 1);
+    const cell = gridPosFromWorld(tile.position.x, tile.position.y, tile.position.z);
+    this.tileGrid.delete(cell.x, cell.y, cell.z);
+  }
+
+  private updateTileVisual(tile: SoilTile): void {
+    if (tile.moisture >= 0.7) {
+      tile.mesh.material = FURROW_MATERIALS.wet;
+    } else if (tile.moisture > 0) {
+      tile.mesh.material = FURROW_MATERIALS.damp;
+    } else {
+      tile.mesh.material = FURROW_MATERIALS.dry;
+    }
+  }
+
+  private isSoilBlock(x: number, y: number, z: number): boolean {
+    const cell = gridPosFromWorld(x, y, z);
+    const type = this.world.getBlockAtGrid(cell.x, cell.y, cell.z)?.blockType;
+    return !!type && TILLABLE.includes(type);
+  }
+
+  // A building block right on top; crops don't count
+  private isCovered(tile: SoilTile): boolean {
+    const cell = gridPosFromWorld(tile.position.x, tile.position.y, tile.position.z);
+    return !!this.world.getBlockAtGrid(cell.x, cell.y + 1, cell.z)?.blockType;
+  }
+
+  // A building block somewhere overhead; crops, however tall, don't keep the rain off
+  private isSheltered(tile: SoilTile): boolean {
+    const cell = gridPosFromWorld(tile.position.x, tile.position.y, tile.position.z);
+    for (let y = cell.y + 1; y <= cell.y + SHELTER_HEIGHT; y++) {
+      if (this.world.getBlockAtGrid(cell.x, y, cell.z)?.blockType) return true;
+    }
+    return false;
+  }
+
+  // Blocks in unloaded chunks aren't there to check, so their tiles are left alone
+  private isInLoadedArea(tile: SoilTile): boolean {
+    const cell = gridPosFromWorld(tile.position.x, tile.position.y, tile.position.z);
+    return this.world.isAreaLoaded(chunkCoord(cell.x), chunkCoord(cell.z));
+  }
+}
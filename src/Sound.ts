@@ -1,7 +1,49 @@
 // Simple Web Audio API sound effects using oscillators
+import type { SoundProfile } from './BlockMaterials';
+
+export type BlockSoundAction = 'place' | 'hit' | 'break' | 'impact';
+export type WeatherSound = 'rain' | 'storm' | 'wind';
+
+interface BlockSound {
+  frequency: number;
+  duration: number;
+  wave: OscillatorType;
+  noise: number; // Volume of the filtered noise layer (crunch, hiss, shatter)
+  noiseFrequency: number; // Center of the noise band in Hz
+}
+
+const BLOCK_SOUNDS: Record<SoundProfile, BlockSound> = {
+  stone: { frequency: 110, duration: 0.18, wave: 'square', noise: 0.15, noiseFrequency: 700 },
+  wood: { frequency: 260, duration: 0.12, wave: 'triangle', noise: 0.1, noiseFrequency: 1200 },
+  soil: { frequency: 150, duration: 0.1, wave: 'sine', noise: 0.2, noiseFrequency: 400 },
+  sand: { frequency: 180, duration: 0.2, wave: 'sine', noise: 0.3, noiseFrequency: 2500 },
+  glass: { frequency: 1800, duration: 0.3, wave: 'sine', noise: 0.3, noiseFrequency: 6000 },
+};
+
+// How each action bends the material's base sound
+const ACTION_SHAPES: Record<BlockSoundAction, { pitch: number; length: number; volume: number }> = {
+  place: { pitch: 1.5, length: 0.6, volume: 0.8 },
+  hit: { pitch: 1.2, length: 0.4, volume: 0.5 },
+  break: { pitch: 1, length: 1, volume: 1 },
+  impact: { pitch: 0.8, length: 0.5, volume: 0.6 },
+};
+
+// Piles of settling blocks report many contacts at once
+const MIN_IMPACT_INTERVAL = 0.05;
+
+// Looping filtered noise under each kind of weather
+const WEATHER_SOUNDS: Record<WeatherSound, { filter: BiquadFilterType; frequency: number; volume: number }> = {
+  rain: { filter: 'highpass', frequency: 2000, volume: 0.05 },
+  storm: { filter: 'bandpass', frequency: 900, volume: 0.09 },
+  wind: { filter: 'lowpass', frequency: 350, volume: 0.08 },
+};
+const WEATHER_FADE = 2; // Seconds to fade between weather sounds
 
 class SoundManager {
   private audioContext: AudioContext;
+  private noiseBuffer: AudioBuffer | null = null;
+  private lastImpactTime: number = 0;
+  private weatherSound: { kind: WeatherSound; source: AudioBufferSourceNode; gain: GainNode } | null = null;
 
   constructor() {
     this.audioContext = new AudioContext();
@@ -11,7 +53,8 @@ class SoundManager {
   private playTone(
     frequency: number,
     duration: number,
-    type: OscillatorType = 'sine'
+    type: OscillatorType = 'sine',
+    volume: number = 0.3
   ): void {
     const oscillator = this.audioContext.createOscillator();
     const gainNode = this.audioContext.createGain();
@@ -24,13 +67,105 @@ class SoundManager {
 
     // Envelope for smoother sound
     const now = this.audioContext.currentTime;
-    gainNode.gain.setValueAtTime(0.3, now);
+    gainNode.gain.setValueAtTime(volume, now);
     gainNode.gain.exponentialRampToValueAtTime(0.01, now + duration);
 
     oscillator.start(now);
     oscillator.stop(now + duration);
   }
 
+  // Band-passed white noise burst
+  private playNoise(centerFrequency: number, duration: number, volume: number): void {
+    const source = this.audioContext.createBufferSource();
+    const filter = this.audioContext.createBiquadFilter();
+    const gainNode = this.audioContext.createGain();
+
+    source.buffer = this.getNoiseBuffer();
+    filter.type = 'bandpass';
+    filter.frequency.value = centerFrequency;
+    source.connect(filter);
+    filter.connect(gainNode);
+    gainNode.connect(this.audioContext.destination);
+
+    const now = this.audioContext.currentTime;
+    gainNode.gain.setValueAtTime(volume, now);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, now + duration);
+
+    source.start(now);
+    source.stop(now + duration);
+  }
+
+  // One second of white noise, made on first use
+  private getNoiseBuffer(): AudioBuffer {
+    if (!this.noiseBuffer) {
+      const length = this.audioContext.sampleRate;
+      this.noiseBuffer = this.audioContext.createBuffer(1, length, this.audioContext.sampleRate);
+      const data = this.noiseBuffer.getChannelData(0);
+      for (let i = 0; i < length; i++) {
+        data[i] = Math.random() * 2 - 1;
+      }
+    }
+    return this.noiseBuffer;
+  }
+
+  // Material-specific sound for something happening to a block
+  playBlockSound(profile: SoundProfile, action: BlockSoundAction, intensity: number = 1.0): void {
+    if (action === 'impact') {
+      const now = this.audioContext.currentTime;
+      if (now - this.lastImpactTime < MIN_IMPACT_INTERVAL) return;
+      this.lastImpactTime = now;
+    }
+
+    const sound = BLOCK_SOUNDS[profile];
+    const shape = ACTION_SHAPES[action];
+    const duration = sound.duration * shape.length;
+    const volume = shape.volume * intensity;
+
+    this.playTone(sound.frequency * shape.pitch, duration, sound.wave, 0.3 * volume);
+    if (sound.noise > 0) {
+      this.playNoise(sound.noiseFrequency, duration, sound.noise * volume);
+    }
+  }
+
+  // Fade out the current weather loop and fade in another (or none)
+  setWeatherSound(kind: WeatherSound | null): void {
+    if (this.weatherSound?.kind === kind) return;
+    const now = this.audioContext.currentTime;
+
+    if (this.weatherSound) {
+      const { source, gain } = this.weatherSound;
+      gain.gain.setValueAtTime(gain.gain.value, now);
+      gain.gain.linearRampToValueAtTime(0, now + WEATHER_FADE);
+      source.stop(now + WEATHER_FADE);
+      this.weatherSound = null;
+    }
+    if (!kind) return;
+
+    const settings = WEATHER_SOUNDS[kind];
+    const source = this.audioContext.createBufferSource();
+    const filter = this.audioContext.createBiquadFilter();
+    const gain = this.audioContext.createGain();
+    source.buffer = this.getNoiseBuffer();
+    source.loop = true;
+    filter.type = settings.filter;
+    filter.frequency.value = settings.frequency;
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.audioContext.destination);
+
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(settings.volume, now + WEATHER_FADE);
+    source.start(now);
+    this.weatherSound = { kind, source, gain };
+  }
+
+  // Low rumble with a sharp crack at the start, louder the closer the strike
+  playThunder(closeness: number = 1): void {
+    this.playNoise(2500, 0.15, 0.3 * closeness);
+    this.playNoise(80, 2.5, 0.5 * closeness);
+    this.playTone(45, 2, 'sawtooth', 0.15 * closeness);
+  }
+
   // Sound for placing a block
   playPlaceSound(): void {
     this.playTone(440, 0.1, 'square'); // A note, short duration
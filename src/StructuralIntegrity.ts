@@ -0,0 +1,176 @@
+import type { Block } from './Block';
+import { BlockIntegrity } from './types';
+import type { IntegrityProfile } from './types';
+import { VoxelGrid, FACE_NEIGHBORS } from './VoxelGrid';
+import type { GridPos } from './VoxelGrid';
+
+// Blocks without a material (crops) have to rest directly on something
+const DEFAULT_PROFILE: IntegrityProfile = { strength: 0, maxSpan: 0 };
+
+// Structures bigger than this are assumed to hold rather than stall a frame
+const MAX_ANALYZED_BLOCKS = 50000;
+
+interface StructureCell {
+  block: Block;
+  pos: GridPos;
+}
+
+function cellKey(x: number, y: number, z: number): string {
+  return `${x},${y},${z}`;
+}
+
+// Decides which static blocks are still held up after the grid changes.
+// Support flows out of grounded blocks (unbroken columns down to the ground row): straight
+// up for free, one span per sideways or hanging step. A block holds if it is within its
+// material's span, and an overhanging block must also carry the column stacked on top of it.
+export class StructuralIntegrity {
+  private grid: VoxelGrid<Block>;
+  private groundY: number;
+
+  constructor(grid: VoxelGrid<Block>, groundY: number) {
+    this.grid = grid;
+    this.groundY = groundY;
+  }
+
+  // Unsupported blocks near the changed cells, grouped into connected clusters
+  findDetachedClusters(changed: GridPos[]): Block[][] {
+    const structure = this.collectStructure(changed);
+    if (!structure || structure.size === 0) return [];
+
+    const supported = this.propagateSupport(structure);
+    const unsupported = new Map<string, StructureCell>();
+    structure.forEach((cell, key) => {
+      if (!supported.has(key)) unsupported.set(key, cell);
+    });
+
+    return this.groupClusters(unsupported);
+  }
+
+  // On the ground row, or standing on an unbroken column down to it
+  isGrounded(pos: GridPos): boolean {
+    for (let y = pos.y - 1; y >= this.groundY; y--) {
+      if (!this.grid.has(pos.x, y, pos.z)) return false;
+    }
+    return true;
+  }
+
+  // Every non-grounded block connected to the changed cells
+  private collectStructure(changed: GridPos[]): Map<string, StructureCell> | null {
+    const structure = new Map<string, StructureCell>();
+    const queue: GridPos[] = [];
+
+    const visit = (pos: GridPos) => {
+      if (this.isGrounded(pos)) return;
+      const key = cellKey(pos.x, pos.y, pos.z);
+      if (structure.has(key)) return;
+      const block = this.grid.get(pos.x, pos.y, pos.z);
+      if (!block) return;
+      structure.set(key, { block, pos });
+      queue.push(pos);
+    };
+
+    changed.forEach((pos) => {
+      visit(pos);
+      this.grid.getNeighbors(pos.x, pos.y, pos.z).forEach(({ pos: neighbor }) => visit(neighbor));
+    });
+
+    for (let i = 0; i < queue.length; i++) {
+      if (structure.size > MAX_ANALYZED_BLOCKS) return null;
+      const pos = queue[i];
+      this.grid.getNeighbors(pos.x, pos.y, pos.z).forEach(({ pos: neighbor }) => visit(neighbor));
+    }
+
+    return structure;
+  }
+
+  // Bucketed shortest-span search; returns the keys of blocks that hold
+  private propagateSupport(structure: Map<string, StructureCell>): Set<string> {
+    const bestSpan = new Map<string, number>();
+    const settled = new Set<string>();
+    const supported = new Set<string>();
+    const buckets: GridPos[][] = [];
+
+    const offer = (pos: GridPos, span: number) => {
+      const key = cellKey(pos.x, pos.y, pos.z);
+      if (!structure.has(key) || settled.has(key)) return;
+      const current = bestSpan.get(key);
+      if (current !== undefined && current <= span) return;
+      bestSpan.set(key, span);
+      (buckets[span] ??= []).push(pos);
+    };
+
+    // Seed from the ground: resting on it is free, clinging to its side costs a span
+    structure.forEach(({ pos }) => {
+      for (const offset of FACE_NEIGHBORS) {
+        const neighbor = { x: pos.x - offset.x, y: pos.y - offset.y, z: pos.z - offset.z };
+        if (!this.isGrounded(neighbor) || !this.grid.has(neighbor.x, neighbor.y, neighbor.z)) continue;
+        offer(pos, offset.y === 1 ? 0 : 1);
+      }
+    });
+
+    for (let span = 0; span < buckets.length; span++) {
+      const bucket = buckets[span];
+      if (!bucket) continue;
+
+      // Zero-cost moves append to the bucket being walked
+      for (let i = 0; i < bucket.length; i++) {
+        const pos = bucket[i];
+        const key = cellKey(pos.x, pos.y, pos.z);
+        if (settled.has(key) || bestSpan.get(key) !== span) continue;
+        settled.add(key);
+
+        const block = structure.get(key)!.block;
+        if (!this.canHold(block, pos, span)) continue;
+        supported.add(key);
+
+        for (const offset of FACE_NEIGHBORS) {
+          const neighbor = { x: pos.x + offset.x, y: pos.y + offset.y, z: pos.z + offset.z };
+          offer(neighbor, offset.y === 1 ? span : span + 1);
+        }
+      }
+    }
+
+    return supported;
+  }
+
+  private canHold(block: Block, pos: GridPos, span: number): boolean {
+    const profile = block.blockType ? BlockIntegrity[block.blockType] : DEFAULT_PROFILE;
+    if (span > profile.maxSpan) return false;
+    if (span === 0) return true;
+    return this.columnLoad(pos) <= profile.strength;
+  }
+
+  // Blocks stacked directly on top of a cell
+  private columnLoad(pos: GridPos): number {
+    let load = 0;
+    while (this.grid.has(pos.x, pos.y + load + 1, pos.z)) load++;
+    return load;
+  }
+
+  private groupClusters(unsupported: Map<string, StructureCell>): Block[][] {
+    const clusters: Block[][] = [];
+    const assigned = new Set<string>();
+
+    unsupported.forEach((start, startKey) => {
+      if (assigned.has(startKey)) return;
+      assigned.add(startKey);
+
+      const cluster: Block[] = [];
+      const queue: GridPos[] = [start.pos];
+      for (let i = 0; i < queue.length; i++) {
+        const pos = queue[i];
+        cluster.push(unsupported.get(cellKey(pos.x, pos.y, pos.z))!.block);
+        for (const offset of FACE_NEIGHBORS) {
+          const neighbor = { x: pos.x + offset.x, y: pos.y + offset.y, z: pos.z + offset.z };
+          const key = cellKey(neighbor.x, neighbor.y, neighbor.z);
+          if (assigned.has(key) || !unsupported.has(key)) continue;
+          assigned.add(key);
+          queue.push(neighbor);
+        }
+      }
+      clusters.push(cluster);
+    });
+
+    return clusters;
+  }
+}
@@ -0,0 +1,307 @@
+import type { Block } from './Block';
+import type { VoxelWorld } from './VoxelWorld';
+import type { TerrainLot } from './TerrainGenerator';
+import { BlockColors } from './types';
+import type { BlockType } from './types';
+import { gridToWorld } from './VoxelGrid';
+import type { GridPos } from './VoxelGrid';
+
+// Template cells with this character stay empty
+const EMPTY_CELL = '.';
+
+// Characters used when a template is written out from blocks in the world
+const PALETTE_CHARS: Record<BlockType, string> = {
+  DIRT: 'D',
+  STONE: 'S',
+  WOOD: 'W',
+  GRASS: 'R',
+  BRICK: 'B',
+  SAND: 'A',
+  GLASS: 'G',
+  COBBLESTONE: 'C',
+  PLANKS: 'P',
+};
+
+export type Facing = 'north' | 'east' | 'south' | 'west';
+
+// Quarter turns about the vertical axis move each facing one step along this list
+const FACING_TURN_ORDER: readonly Facing[] = ['east', 'north', 'west', 'south'];
+// Mirroring flips the template's x axis
+const MIRRORED_FACING: Record<Facing, Facing> = { north: 'north', east: 'west', south: 'south', west: 'east' };
+
+export interface StructureEntrance {
+  x: number;
+  y: number;
+  z: number;
+  facing: Facing; // The way you face when walking out
+}
+
+// A building as data; template files live in src/structures/*.json
+export interface StructureTemplate {
+  name: string;
+  anchor: [number, number, number]; // Template cell that lands on the placement position
+  palette: Record<string, BlockType>; // One character per block type
+  layers: string[][]; // Bottom to top; each layer lists rows along +z, each row lists cells along +x
+  entrances: StructureEntrance[]; // Doorway cells, in template cells
+}
+
+export interface StructurePlacement {
+  template: string;
+  x: number; // Grid cell the anchor lands on
+  y?: number;
+  z: number;
+  rotation?: number; // Degrees about the vertical axis (0, 90, 180 or 270), same sense as Object3D.rotation.y
+  mirror?: boolean; // Flip the template along its x axis (through the anchor) before rotating
+  repeat?: [number, number]; // Copies laid side by side along the template's x and z (fences, paths, fields)
+}
+
+export interface PlacedStructure {
+  blocks: Block[];
+  entrances: StructureEntrance[]; // In world grid cells
+}
+
+function isCellTriple(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every((v) => Number.isInteger(v));
+}
+
+// Check a template loaded from JSON; throws with the file and problem on bad data
+export function parseStructureTemplate(data: unknown, source: string): StructureTemplate {
+  const fail = (problem: string): never => {
+    throw new Error(`Structure template ${source}: ${problem}`);
+  };
+  if (!data || typeof data !== 'object') fail('not an object');
+  const template = data as Partial<StructureTemplate>;
+
+  if (typeof template.name !== 'string' || template.name === '') fail('missing "name"');
+  if (!isCellTriple(template.anchor)) fail('"anchor" must be three whole numbers');
+  if (!template.palette || typeof template.palette !== 'object') fail('missing "palette"');
+  Object.entries(template.palette!).forEach(([char, type]) => {
+    if (char.length !== 1 || char === EMPTY_CELL) fail(`palette key "${char}" must be one character other than "${EMPTY_CELL}"`);
+    if (!(type in BlockColors)) fail(`unknown block type "${type}"`);
+  });
+
+  if (!Array.isArray(template.layers) || template.layers.length === 0) fail('missing "layers"');
+  template.layers!.forEach((layer, y) => {
+    if (!Array.isArray(layer)) fail(`layer ${y} must be a list of rows`);
+    layer.forEach((row) => {
+      if (typeof row !== 'string') fail(`layer ${y} has a row that is not a string`);
+      for (const char of row) {
+        if (char !== EMPTY_CELL && !(char in template.palette!)) fail(`layer ${y} uses "${char}", which is not in the palette`);
+      }
+    });
+  });
+
+  const entrances = template.entrances ?? [];
+  if (!Array.isArray(entrances)) fail('"entrances" must be a list');
+  entrances.forEach((entrance) => {
+    if (!isCellTriple([entrance.x, entrance.y, entrance.z])) fail('entrance position must be whole numbers');
+    if (!FACING_TURN_ORDER.includes(entrance.facing)) fail(`unknown entrance facing "${entrance.facing}"`);
+  });
+
+  return { ...(template as StructureTemplate), entrances };
+}
+
+const templateFiles = import.meta.glob('./structures/*.json', { eager: true, import: 'default' });
+const templates: Map<string, StructureTemplate> = new Map();
+Object.entries(templateFiles).forEach(([path, data]) => {
+  const template = parseStructureTemplate(data, path);
+  if (templates.has(template.name)) {
+    throw new Error(`Structure template ${path}: "${template.name}" is already defined`);
+  }
+  templates.set(template.name, template);
+});
+
+export function getStructureTemplate(name: string): StructureTemplate {
+  const template = templates.get(name);
+  if (!template) {
+    throw new Error(`Unknown structure template "${name}"`);
+  }
+  return template;
+}
+
+// Check a layout (a list of placements) loaded from JSON
+export function parseStructureLayout(data: unknown, source: string): StructurePlacement[] {
+  const placements = (data as { placements?: unknown } | null)?.placements;
+  if (!Array.isArray(placements)) {
+    throw new Error(`Structure layout ${source}: missing "placements"`);
+  }
+  placements.forEach((placement: StructurePlacement, i) => {
+    const fail = (problem: string): never => {
+      throw new Error(`Structure layout ${source}, placement ${i}: ${problem}`);
+    };
+    if (!templates.has(placement.template)) fail(`unknown template "${placement.template}"`);
+    if (!Number.isInteger(placement.x) || !Number.isInteger(placement.z)) fail('x and z must be whole numbers');
+    if ((placement.rotation ?? 0) % 90 !== 0) fail('rotation must be a multiple of 90');
+  });
+  return placements;
+}
+
+// Template width (x) and depth (z) in cells
+function getTemplateSize(template: StructureTemplate): { width: number; depth: number } {
+  let width = 0;
+  let depth = 0;
+  template.layers.forEach((layer) => {
+    depth = Math.max(depth, layer.length);
+    layer.forEach((row) => (width = Math.max(width, row.length)));
+  });
+  return { width, depth };
+}
+
+function getQuarterTurns(placement: StructurePlacement): number {
+  return ((Math.round((placement.rotation ?? 0) / 90) % 4) + 4) % 4;
+}
+
+// Template cell -> world grid cell
+function toWorldCell(
+  template: StructureTemplate,
+  placement: StructurePlacement,
+  x: number,
+  y: number,
+  z: number
+): GridPos {
+  const [ax, ay, az] = template.anchor;
+  let dx = placement.mirror ? ax - x : x - ax;
+  let dz = z - az;
+  for (let turn = 0; turn < getQuarterTurns(placement); turn++) {
+    [dx, dz] = [dz, -dx];
+  }
+  return { x: placement.x + dx, y: (placement.y ?? 0) + y - ay, z: placement.z + dz };
+}
+
+function transformFacing(facing: Facing, placement: StructurePlacement): Facing {
+  const mirrored = placement.mirror ? MIRRORED_FACING[facing] : facing;
+  return FACING_TURN_ORDER[(FACING_TURN_ORDER.indexOf(mirrored) + getQuarterTurns(placement)) % 4];
+}
+
+// Every block of a placement (repeats included), in world grid cells
+export function forEachStructureCell(
+  placement: StructurePlacement,
+  callback: (type: BlockType, pos: GridPos) => void
+): void {
+  forEachTemplateCell(getStructureTemplate(placement.template), placement, callback);
+}
+
+// Same, for a template that isn't one of the registered files (a player's blueprint)
+export function forEachTemplateCell(
+  template: StructureTemplate,
+  placement: StructurePlacement,
+  callback: (type: BlockType, pos: GridPos) => void
+): void {
+  const { width, depth } = getTemplateSize(template);
+  const [repeatX, repeatZ] = placement.repeat ?? [1, 1];
+
+  for (let rx = 0; rx < repeatX; rx++) {
+    for (let rz = 0; rz < repeatZ; rz++) {
+      template.layers.forEach((layer, y) => {
+        layer.forEach((row, z) => {
+          for (let x = 0; x < row.length; x++) {
+            const char = row[x];
+            if (char === EMPTY_CELL) continue;
+            callback(template.palette[char], toWorldCell(template, placement, rx * width + x, y, rz * depth + z));
+          }
+        });
+      });
+    }
+  }
+}
+
+export function placeStructure(world: VoxelWorld, placement: StructurePlacement): PlacedStructure {
+  const template = getStructureTemplate(placement.template);
+  const blocks: Block[] = [];
+  forEachTemplateCell(template, placement, (type, pos) => {
+    blocks.push(world.addBlock(gridToWorld(pos.x), gridToWorld(pos.y), gridToWorld(pos.z), type));
+  });
+  return { blocks, entrances: getPlacedEntrances(template, placement) };
+}
+
+function getPlacedEntrances(template: StructureTemplate, placement: StructurePlacement): StructureEntrance[] {
+  return template.entrances.map((entrance) => ({
+    ...toWorldCell(template, placement, entrance.x, entrance.y, entrance.z),
+    facing: transformFacing(entrance.facing, placement),
+  }));
+}
+
+// Build a template from world cells; the anchor is the middle of the bottom layer
+export function createStructureTemplate(name: string, cells: { type: BlockType; pos: GridPos }[]): StructureTemplate {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  cells.forEach(({ pos }) => {
+    min.x = Math.min(min.x, pos.x);
+    min.y = Math.min(min.y, pos.y);
+    min.z = Math.min(min.z, pos.z);
+    max.x = Math.max(max.x, pos.x);
+    max.y = Math.max(max.y, pos.y);
+    max.z = Math.max(max.z, pos.z);
+  });
+
+  const width = max.x - min.x + 1;
+  const depth = max.z - min.z + 1;
+  const layers: string[][] = [];
+  for (let y = 0; y <= max.y - min.y; y++) {
+    layers.push(Array.from({ length: depth }, () => EMPTY_CELL.repeat(width)));
+  }
+
+  const palette: Record<string, BlockType> = {};
+  cells.forEach(({ type, pos }) => {
+    const char = PALETTE_CHARS[type];
+    palette[char] = type;
+    const layer = layers[pos.y - min.y];
+    const row = layer[pos.z - min.z];
+    const x = pos.x - min.x;
+    layer[pos.z - min.z] = row.slice(0, x) + char + row.slice(x + 1);
+  });
+
+  return {
+    name,
+    anchor: [Math.floor(width / 2), 0, Math.floor(depth / 2)],
+    palette,
+    layers,
+    entrances: [],
+  };
+}
+
+// JSON in the same layout as the files in src/structures (one row per line)
+export function serializeStructureTemplate(template: StructureTemplate): string {
+  const palette = Object.keys(template.palette)
+    .sort()
+    .map((char) => `"${char}": "${template.palette[char]}"`)
+    .join(', ');
+  const entrances = template.entrances
+    .map((e) => `\n    { "x": ${e.x}, "y": ${e.y}, "z": ${e.z}, "facing": "${e.facing}" }`)
+    .join(',');
+  const layers = template.layers
+    .map((layer) => `    [\n${layer.map((row) => `      "${row}"`).join(',\n')}\n    ]`)
+    .join(',\n');
+
+  return [
+    '{',
+    `  "name": ${JSON.stringify(template.name)},`,
+    `  "anchor": [${template.anchor.join(', ')}],`,
+    `  "palette": { ${palette} },`,
+    `  "entrances": [${entrances}${entrances ? '\n  ' : ''}],`,
+    '  "layers": [',
+    layers,
+    '  ]',
+    '}',
+    '',
+  ].join('\n');
+}
+
+// Ground area a placement covers, in grid cells
+export function getStructureFootprint(placement: StructurePlacement): TerrainLot {
+  const template = getStructureTemplate(placement.template);
+  const { width, depth } = getTemplateSize(template);
+  const [repeatX, repeatZ] = placement.repeat ?? [1, 1];
+  const corners = [
+    toWorldCell(template, placement, 0, 0, 0),
+    toWorldCell(template, placement, width * repeatX - 1, 0, depth * repeatZ - 1),
+  ];
+  const x = Math.min(corners[0].x, corners[1].x);
+  const z = Math.min(corners[0].z, corners[1].z);
+  return {
+    x,
+    z,
+    width: Math.max(corners[0].x, corners[1].x) - x + 1,
+    depth: Math.max(corners[0].z, corners[1].z) - z + 1,
+  };
+}
@@ -0,0 +1,125 @@
+import { BlockType } from './types';
+import { Noise2D, createRandom } from './Noise';
+
+// Surface row of the flat farmland (blocks built at row 0 sit on it)
+export const FLAT_SURFACE_Y = -1;
+// Top row filled by rivers and ponds
+export const WATER_LEVEL_Y = -2;
+// Lowest terrain row; everything rests on it
+export const TERRAIN_FLOOR_Y = -8;
+
+const HILL_SCALE = 56; // Cells per noise period
+const HILL_HEIGHT = 8; // Rows above the farmland at the tallest hills
+const OUTCROP_SCALE = 18;
+const OUTCROP_THRESHOLD = 0.45;
+const RIVER_HALF_WIDTH = 3;
+const RIVER_MEANDER = 8;
+const BANK_WIDTH = 4; // Cells over which banks slope down to the water
+const BEACH_WIDTH = 3; // Sand this far from the water's edge
+const LOT_MARGIN = 3; // Flat ground kept around each lot
+const LOT_BLEND = 10; // Cells over which hills ease back down to a lot
+
+// Rectangular area in grid cells
+export interface TerrainLot {
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+}
+
+export interface TerrainColumn {
+  height: number; // Top solid row
+  surface: BlockType;
+  subsurface: BlockType; // The couple of rows under the surface
+  water: boolean; // Filled with water up to WATER_LEVEL_Y
+}
+
+function smoothstep(t: number): number {
+  const x = Math.min(1, Math.max(0, t));
+  return x * x * (3 - 2 * x);
+}
+
+// Deterministic terrain: every column is a pure function of the seed and its position
+export class TerrainGenerator {
+  readonly seed: number;
+  private lots: TerrainLot[];
+  private hills: Noise2D;
+  private outcrops: Noise2D;
+  private meander: Noise2D;
+  private riverX: number;
+  private pond: { x: number; z: number; radius: number };
+
+  constructor(seed: number, lots: TerrainLot[]) {
+    this.seed = seed;
+    this.lots = lots;
+    this.hills = new Noise2D(seed);
+    this.outcrops = new Noise2D(seed + 1);
+    this.meander = new Noise2D(seed + 2);
+
+    // River runs north-south west of the farm; the pond sits in one of the far corners
+    const random = createRandom(seed);
+    this.riverX = -46 + Math.floor(random() * 6);
+    const pondSpots = [
+      { x: 48, z: 48 },
+      { x: 48, z: -48 },
+      { x: -8, z: -54 },
+    ];
+    const spot = pondSpots[Math.floor(random() * pondSpots.length)];
+    this.pond = { ...spot, radius: 5 + Math.floor(random() * 4) };
+  }
+
+  getColumn(x: number, z: number): TerrainColumn {
+    const flatness = this.getLotFlatness(x, z);
+
+    // Rolling hills rise from the farmland; dips stay shallow
+    const hill = this.hills.fractal(x / HILL_SCALE, z / HILL_SCALE, 4);
+    let height = FLAT_SURFACE_Y + Math.max(0, hill) * HILL_HEIGHT - Math.max(0, -hill) * 1.5;
+
+    const rock = this.outcrops.sample(x / OUTCROP_SCALE, z / OUTCROP_SCALE);
+    const outcrop = rock > OUTCROP_THRESHOLD;
+    if (outcrop) {
+      height += (rock - OUTCROP_THRESHOLD) * 14;
+    }
+
+    // Distance outside the water body (negative inside)
+    const riverCenter = this.riverX + this.meander.fractal(z / 48, 0.5, 2) * RIVER_MEANDER;
+    const riverEdge = Math.abs(x - riverCenter) - RIVER_HALF_WIDTH;
+    const pondEdge = Math.hypot(x - this.pond.x, z - this.pond.z) - this.pond.radius;
+    const shoreDistance = Math.min(riverEdge, pondEdge);
+    const waterSpan = riverEdge < pondEdge ? RIVER_HALF_WIDTH : this.pond.radius;
+
+    if (shoreDistance < 0) {
+      // Bed deepens toward the middle
+      const depth = 1 + Math.round(2 * Math.min(1, -shoreDistance / waterSpan));
+      height = WATER_LEVEL_Y - depth;
+    } else if (shoreDistance < BANK_WIDTH) {
+      // Banks ease down to just above the waterline
+      const bank = WATER_LEVEL_Y + 1;
+      height = Math.min(height, bank + (height - bank) * smoothstep(shoreDistance / BANK_WIDTH));
+    }
+
+    // Farm lots stay flat, with hills and water easing out around them
+    height = Math.round(height + (FLAT_SURFACE_Y - height) * flatness);
+
+    const water = height < WATER_LEVEL_Y;
+    const beach = flatness < 1 && shoreDistance < BEACH_WIDTH;
+    if (water || beach) {
+      return { height, surface: BlockType.SAND, subsurface: BlockType.SAND, water };
+    }
+    if (outcrop && flatness === 0) {
+      return { height, surface: BlockType.STONE, subsurface: BlockType.STONE, water };
+    }
+    return { height, surface: BlockType.GRASS, subsurface: BlockType.DIRT, water };
+  }
+
+  // 1 on and right around a lot, falling to 0 over LOT_BLEND cells
+  private getLotFlatness(x: number, z: number): number {
+    let nearest = Infinity;
+    for (const lot of this.lots) {
+      const dx = Math.max(lot.x - x, 0, x - (lot.x + lot.width - 1));
+      const dz = Math.max(lot.z - z, 0, z - (lot.z + lot.depth - 1));
+      nearest = Math.min(nearest, Math.hypot(dx, dz));
+    }
+    return 1 - smoothstep((nearest - LOT_MARGIN) / LOT_BLEND);
+  }
+}
@@ -1,5 +1,10 @@
 import * as THREE from 'three';
 
+export interface TimeSaveState {
+  dayNumber: number;
+  timeOfDay: number;
+}
+
 export class TimeManager {
   private dayNumber: number = 1;
   private timeOfDay: number = 0.3; // 0 = midnight, 0.5 = noon, 1.0 = midnight (0.3 = morning start)
@@ -11,6 +16,12 @@ export class TimeManager {
   private directionalLight: THREE.DirectionalLight;
   private scene: THREE.Scene;
 
+  // Weather on top of the time of day: light scale (above 1 for a lightning flash) and how
+  // far the sky is blended toward an overcast color
+  private weatherLight: number = 1;
+  private overcast: number = 0;
+  private overcastColor: number = 0x9aa3ad;
+
   // Time change callbacks
   private onNewDay: (() => void)[] = [];
 
@@ -82,9 +93,27 @@ export class TimeManager {
       skyColor = this.lerpColor(0xff6b35, 0x1a1a2e, t); // Orange -> Dark blue
     }
 
+    // Clouds dim the sun more than the ambient light, and darken with the rest of the sky at night
+    if (this.overcast > 0) {
+      const cloudColor = new THREE.Color(this.overcastColor).multiplyScalar(ambientIntensity / 0.6);
+      skyColor = new THREE.Color(skyColor).lerp(cloudColor, this.overcast).getHex();
+    }
+    lightIntensity *= this.weatherLight;
+    ambientIntensity *= 0.5 + 0.5 * this.weatherLight;
+
     this.directionalLight.intensity = lightIntensity;
     this.ambientLight.intensity = ambientIntensity;
     this.scene.background = new THREE.Color(skyColor);
+    // Fog fades into the sky
+    if (this.scene.fog) {
+      this.scene.fog.color.setHex(skyColor);
+    }
+  }
+
+  setWeatherLighting(light: number, overcast: number, overcastColor: number): void {
+    this.weatherLight = light;
+    this.overcast = overcast;
+    this.overcastColor = overcastColor;
   }
 
   private lerpColor(color1: number, color2: number, t: number): number {
@@ -130,6 +159,17 @@ export class TimeManager {
     this.isPaused = false;
   }
 
+  getSaveState(): TimeSaveState {
+    return { dayNumber: this.dayNumber, timeOfDay: this.timeOfDay };
+  }
+
+  // Restore clock without firing new day callbacks
+  loadSaveState(state: TimeSaveState): void {
+    this.dayNumber = state.dayNumber;
+    this.timeOfDay = state.timeOfDay;
+    this.updateLighting();
+  }
+
   registerNewDayCallback(callback: () => void): void {
     this.onNewDay.push(callback);
   }
@@ -0,0 +1,286 @@
+import type { Action, InputManager, MenuOptionAction } from './Input';
+import type { Controls } from './Controls';
+
+const JOYSTICK_RADIUS = 60; // Pixels of thumb travel for full speed
+const TAP_MAX_MS = 250;
+const TAP_MAX_MOVE = 10; // Pixels a tap may drift before it counts as a look-drag
+const LONG_PRESS_MS = 400;
+const BUTTON_SIZE = 56;
+
+// Buttons along the top edge, for the keys a tablet doesn't have
+const MENU_BUTTONS: { action: Action; icon: string }[] = [
+  { action: 'pause', icon: '⏸️' },
+  { action: 'open_backpack', icon: '🎒' },
+  { action: 'open_cooking', icon: '🍳' },
+  { action: 'open_market', icon: '🏪' },
+  { action: 'open_achievements', icon: '🏆' },
+  { action: 'sleep', icon: '🛏️' },
+  { action: 'weather_forecast', icon: '🌦️' },
+  { action: 'cycle_camera', icon: '📷' },
+];
+
+export function isTouchDevice(): boolean {
+  return navigator.maxTouchPoints > 0 && window.matchMedia('(pointer: coarse)').matches;
+}
+
+interface LookDrag {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  lastX: number;
+  lastY: number;
+  startedAt: number;
+  moved: boolean;
+  breaking: boolean;
+  longPressTimer: number;
+}
+
+// On-screen controls for touch screens. A thumb on the lower left of the screen moves with a
+// floating joystick, dragging anywhere else looks around, a tap uses what's under the crosshair
+// and a long press breaks it. Everything goes through the input manager's actions, so bindings
+// and contexts work the same as with a keyboard.
+export class TouchControls {
+  private input: InputManager;
+  private layer: HTMLElement;
+  private joystickBase: HTMLElement;
+  private joystickKnob: HTMLElement;
+  private menuRow: HTMLElement;
+  private menuOptionButtons: HTMLElement[] = [];
+  private joystick: { pointerId: number; originX: number; originY: number } | null = null;
+  private look: LookDrag | null = null;
+  private pressed: Set<Action> = new Set(); // Held by buttons
+
+  constructor(input: InputManager, controls: Controls, menuOptions: number) {
+    this.input = input;
+
+    this.layer = document.createElement('div');
+    this.layer.id = 'touch-controls';
+    this.layer.style.position = 'fixed';
+    this.layer.style.top = '0';
+    this.layer.style.left = '0';
+    this.layer.style.width = '100%';
+    this.layer.style.height = '100%';
+    this.layer.style.zIndex = '800';
+    this.layer.style.touchAction = 'none';
+    this.layer.style.userSelect = 'none';
+    this.layer.style.display = 'none';
+
+    this.joystickBase = document.createElement('div');
+    this.joystickBase.style.position = 'absolute';
+    this.joystickBase.style.width = `${JOYSTICK_RADIUS * 2}px`;
+    this.joystickBase.style.height = `${JOYSTICK_RADIUS * 2}px`;
+    this.joystickBase.style.marginLeft = `${-JOYSTICK_RADIUS}px`;
+    this.joystickBase.style.marginTop = `${-JOYSTICK_RADIUS}px`;
+    this.joystickBase.style.borderRadius = '50%';
+    this.joystickBase.style.backgroundColor = 'rgba(255, 255, 255, 0.15)';
+    this.joystickBase.style.border = '2px solid rgba(255, 255, 255, 0.4)';
+    this.joystickBase.style.pointerEvents = 'none';
+    this.joystickBase.style.display = 'none';
+
+    this.joystickKnob = document.createElement('div');
+    this.joystickKnob.style.position = 'absolute';
+    this.joystickKnob.style.left = `${JOYSTICK_RADIUS - 24}px`;
+    this.joystickKnob.style.top = `${JOYSTICK_RADIUS - 24}px`;
+    this.joystickKnob.style.width = '48px';
+    this.joystickKnob.style.height = '48px';
+    this.joystickKnob.style.borderRadius = '50%';
+    this.joystickKnob.style.backgroundColor = 'rgba(255, 255, 255, 0.5)';
+    this.joystickBase.appendChild(this.joystickKnob);
+    this.layer.appendChild(this.joystickBase);
+
+    const topRow = this.createRow();
+    topRow.style.top = '12px';
+    topRow.style.right = '12px';
+    MENU_BUTTONS.forEach(({ action, icon }) => topRow.appendChild(this.createButton(action, icon)));
+    this.layer.appendChild(topRow);
+
+    // Jump sits under the right thumb; descend (fly down) just above it
+    const moveColumn = this.createRow();
+    moveColumn.style.flexDirection = 'column';
+    moveColumn.style.right = '24px';
+    moveColumn.style.bottom = '90px';
+    moveColumn.appendChild(this.createButton('descend', '⬇️'));
+    moveColumn.appendChild(this.createButton('jump', '⬆️'));
+    this.layer.appendChild(moveColumn);
+
+    // Choices while a menu (cooking, the market) waits for one
+    this.menuRow = this.createRow();
+    this.menuRow.style.top = '80px';
+    this.menuRow.style.left = '50%';
+    this.menuRow.style.transform = 'translateX(-50%)';
+    this.menuRow.style.display = 'none';
+    for (let i = 1; i <= menuOptions; i++) {
+      const button = this.createButton(`menu_option_${i}` as MenuOptionAction, String(i));
+      this.menuOptionButtons.push(button);
+      this.menuRow.appendChild(button);
+    }
+    this.menuRow.appendChild(this.createButton('menu_close', '✖️'));
+    this.layer.appendChild(this.menuRow);
+
+    this.layer.addEventListener('pointerdown', (e) => this.onPointerDown(e));
+    this.layer.addEventListener('pointermove', (e) => this.onPointerMove(e));
+    this.layer.addEventListener('pointerup', (e) => this.onPointerUp(e, false));
+    this.layer.addEventListener('pointercancel', (e) => this.onPointerUp(e, true));
+    // Touches here mustn't reach the canvas (which would lock the pointer) or the overlay
+    this.layer.addEventListener('click', (e) => e.stopPropagation());
+    this.layer.addEventListener('contextmenu', (e) => e.preventDefault());
+
+    document.body.appendChild(this.layer);
+
+    // Only shown while playing; menus and the pause screen take touches directly
+    controls.registerLockChangeCallback((locked) => {
+      this.layer.style.display = locked ? 'block' : 'none';
+      if (!locked) this.releaseAll();
+    });
+  }
+
+  // The menu buttons follow the input context
+  update(): void {
+    this.menuRow.style.display = this.input.getContext() === 'menu' ? 'flex' : 'none';
+  }
+
+  // Only as many option buttons as the open menu has choices
+  setMenuOptionCount(count: number): void {
+    this.menuOptionButtons.forEach((button, i) => {
+      button.style.display = i < count ? 'flex' : 'none';
+    });
+  }
+
+  private onPointerDown(e: PointerEvent): void {
+    e.preventDefault();
+    this.layer.setPointerCapture(e.pointerId);
+
+    const inJoystickZone = e.clientX < window.innerWidth * 0.4 && e.clientY > window.innerHeight * 0.4;
+    if (inJoystickZone && !this.joystick) {
+      this.joystick = { pointerId: e.pointerId, originX: e.clientX, originY: e.clientY };
+      this.joystickBase.style.left = `${e.clientX}px`;
+      this.joystickBase.style.top = `${e.clientY}px`;
+      this.joystickBase.style.display = 'block';
+      this.moveKnob(0, 0);
+      return;
+    }
+
+    if (this.look) return;
+    const look: LookDrag = {
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      lastX: e.clientX,
+      lastY: e.clientY,
+      startedAt: performance.now(),
+      moved: false,
+      breaking: false,
+      longPressTimer: 0,
+    };
+    // Holding still turns into holding the break action until the finger lifts
+    look.longPressTimer = window.setTimeout(() => {
+      look.breaking = true;
+      this.input.pressAction('break');
+    }, LONG_PRESS_MS);
+    this.look = look;
+  }
+
+  private onPointerMove(e: PointerEvent): void {
+    if (this.joystick?.pointerId === e.pointerId) {
+      let dx = e.clientX - this.joystick.originX;
+      let dy = e.clientY - this.joystick.originY;
+      const distance = Math.hypot(dx, dy);
+      if (distance > JOYSTICK_RADIUS) {
+        dx *= JOYSTICK_RADIUS / distance;
+        dy *= JOYSTICK_RADIUS / distance;
+      }
+      this.moveKnob(dx, dy);
+      this.input.setTouchMoveAxis(dx / JOYSTICK_RADIUS, dy / JOYSTICK_RADIUS);
+      return;
+    }
+
+    const look = this.look;
+    if (look?.pointerId !== e.pointerId) return;
+    this.input.addLookDelta(e.clientX - look.lastX, e.clientY - look.lastY);
+    look.lastX = e.clientX;
+    look.lastY = e.clientY;
+    if (!look.moved && Math.hypot(e.clientX - look.startX, e.clientY - look.startY) > TAP_MAX_MOVE) {
+      look.moved = true;
+      // A drag is looking around, not a long press (mining keeps going if it already started)
+      window.clearTimeout(look.longPressTimer);
+    }
+  }
+
+  private onPointerUp(e: PointerEvent, cancelled: boolean): void {
+    if (this.joystick?.pointerId === e.pointerId) {
+      this.joystick = null;
+      this.joystickBase.style.display = 'none';
+      this.input.setTouchMoveAxis(0, 0);
+      return;
+    }
+
+    const look = this.look;
+    if (look?.pointerId !== e.pointerId) return;
+    this.look = null;
+    window.clearTimeout(look.longPressTimer);
+    if (look.breaking) {
+      this.input.releaseAction('break');
+    } else if (!cancelled && !look.moved && performance.now() - look.startedAt < TAP_MAX_MS) {
+      this.input.pressAction('place');
+      this.input.releaseAction('place');
+    }
+  }
+
+  private releaseAll(): void {
+    if (this.look) {
+      window.clearTimeout(this.look.longPressTimer);
+      this.look = null;
+    }
+    this.joystick = null;
+    this.joystickBase.style.display = 'none';
+    this.input.setTouchMoveAxis(0, 0);
+    this.input.releaseAction('break');
+    this.pressed.forEach((action) => this.input.releaseAction(action));
+    this.pressed.clear();
+  }
+
+  private moveKnob(dx: number, dy: number): void {
+    this.joystickKnob.style.transform = `translate(${dx}px, ${dy}px)`;
+  }
+
+  private createRow(): HTMLElement {
+    const row = document.createElement('div');
+    row.style.position = 'absolute';
+    row.style.display = 'flex';
+    row.style.gap = '8px';
+    return row;
+  }
+
+  // Buttons hold their action for as long as they're touched
+  private createButton(action: Action, icon: string): HTMLElement {
+    const button = document.createElement('div');
+    button.textContent = icon;
+    button.style.width = `${BUTTON_SIZE}px`;
+    button.style.height = `${BUTTON_SIZE}px`;
+    button.style.display = 'flex';
+    button.style.alignItems = 'center';
+    button.style.justifyContent = 'center';
+    button.style.fontSize = '26px';
+    button.style.color = 'white';
+    button.style.backgroundColor = 'rgba(0, 0, 0, 0.35)';
+    button.style.border = '2px solid rgba(255, 255, 255, 0.35)';
+    button.style.borderRadius = '50%';
+
+    const release = () => {
+      if (!this.pressed.delete(action)) return;
+      this.input.releaseAction(action);
+      button.style.backgroundColor = 'rgba(0, 0, 0, 0.35)';
+    };
+    button.addEventListener('pointerdown', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      button.setPointerCapture(e.pointerId);
+      this.pressed.add(action);
+      button.style.backgroundColor = 'rgba(255, 215, 0, 0.4)';
+      this.input.pressAction(action);
+    });
+    button.addEventListener('pointerup', release);
+    button.addEventListener('pointercancel', release);
+    return button;
+  }
+}
@@ -1,7 +1,15 @@
+import { GAME_MODES } from './GameMode';
+import type { GameMode } from './GameMode';
+
 export class InstructionsOverlay {
   private element: HTMLElement;
   private isVisible: boolean = true;
   private onStart: (() => void) | null = null;
+  private onExport: (() => void) | null = null;
+  private onImport: (() => void) | null = null;
+  private onNewFarm: (() => void) | null = null;
+  private onModeChange: ((mode: GameMode) => void) | null = null;
+  private onOpenBindings: (() => void) | null = null;
 
   constructor(_canvasElement?: HTMLElement, onStart?: () => void) {
     this.onStart = onStart || null;
@@ -30,26 +38,55 @@ export class InstructionsOverlay {
           </p>
         </div>
 
+        <div class="mode-box">
+          ${(Object.keys(GAME_MODES) as GameMode[])
+            .map((mode) => `<button class="mode-button" data-mode="${mode}">${GAME_MODES[mode].name}</button>`)
+            .join('')}
+          <p class="mode-description"></p>
+        </div>
+
         <div class="start-button-container">
           <button class="start-button">🎮 Click to Start Your Farm Life 🎮</button>
         </div>
 
+        <div class="save-box">
+          <button class="save-button" data-action="export">💾 Export Farm</button>
+          <button class="save-button" data-action="import">📂 Import Farm</button>
+          <button class="save-button" data-action="new">🌱 New Farm</button>
+          <p style="margin-top: 8px; font-size: 12px; opacity: 0.7;">Your farm auto-saves every morning</p>
+        </div>
+
         <div class="controls-box">
           <h3 style="margin: 0 0 15px 0; color: #FFD700; font-size: 18px;">⌨️ Controls</h3>
+          <p style="margin: 0 0 12px 0; font-size: 12px; opacity: 0.8;">
+            Default keys shown; gamepads work too
+            <button class="save-button" data-action="bindings">⌨️ Key Bindings</button>
+          </p>
           <div class="controls-grid">
             <div class="control-group">
               <strong style="color: #87CEEB;">Movement</strong>
               <p>WASD - Walk around</p>
               <p>Mouse - Look around</p>
-              <p>Space - Fly up</p>
+              <p>Space - Jump / fly up (double-tap: toggle flying in creative)</p>
               <p>Shift - Fly down</p>
+              <p>T - Switch view (first person, third person, farm overview)</p>
+              <p>G - Weather forecast</p>
             </div>
             <div class="control-group">
               <strong style="color: #87CEEB;">Building</strong>
-              <p>Left Click - Break block</p>
-              <p>Right Click - Place block</p>
-              <p>1-9 - Select materials</p>
-              <p style="font-size: 11px; opacity: 0.7;">(Grass, Dirt, Stone, Cobblestone, Brick, Planks, Wood, Glass, Sand)</p>
+              <p>Left Click - Break block (hold to mine in survival)</p>
+              <p>Right Click - Place block / plant seeds / use hoe or watering can</p>
+              <p>1-9 / Mouse wheel - Select hotbar slot</p>
+              <p>E - Backpack (drag items to rearrange)</p>
+              <p>V - Blueprints (creative: copy and paste builds)</p>
+              <p>Ctrl+Z / Ctrl+Y - Undo / Redo (creative)</p>
+            </div>
+            <div class="control-group">
+              <strong style="color: #87CEEB;">Touch Screens</strong>
+              <p>Left thumb - Walk with the joystick</p>
+              <p>Drag - Look around</p>
+              <p>Tap - Place block / plant seeds</p>
+              <p>Press and hold - Break block</p>
             </div>
           </div>
           <p style="margin-top: 15px; font-size: 13px; opacity: 0.8;">Press <strong>ESC</strong> anytime to pause and see controls</p>
@@ -75,6 +112,61 @@ export class InstructionsOverlay {
         }
       });
     }
+
+    // Picking a mode applies it right away; main saves it with the farm
+    const modeButtons = this.element.querySelectorAll('.mode-button');
+    modeButtons.forEach((button) => {
+      button.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const mode = (button as HTMLElement).dataset.mode as GameMode;
+        this.setMode(mode);
+        if (this.onModeChange) this.onModeChange(mode);
+      });
+    });
+
+    // Save buttons forward to whichever handlers main registered
+    const saveButtons = this.element.querySelectorAll('.save-button');
+    saveButtons.forEach((button) => {
+      button.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const action = (button as HTMLElement).dataset.action;
+        if (action === 'export' && this.onExport) this.onExport();
+        if (action === 'import' && this.onImport) this.onImport();
+        if (action === 'new' && this.onNewFarm) this.onNewFarm();
+        if (action === 'bindings' && this.onOpenBindings) this.onOpenBindings();
+      });
+    });
+  }
+
+  registerSaveCallbacks(onExport: () => void, onImport: () => void, onNewFarm: () => void): void {
+    this.onExport = onExport;
+    this.onImport = onImport;
+    this.onNewFarm = onNewFarm;
+  }
+
+  registerModeCallback(onModeChange: (mode: GameMode) => void): void {
+    this.onModeChange = onModeChange;
+  }
+
+  registerBindingsCallback(onOpenBindings: () => void): void {
+    this.onOpenBindings = onOpenBindings;
+  }
+
+  // Highlight the current mode
+  setMode(mode: GameMode): void {
+    const modeButtons = this.element.querySelectorAll('.mode-button');
+    modeButtons.forEach((button) => {
+      const htmlButton = button as HTMLElement;
+      const selected = htmlButton.dataset.mode === mode;
+      htmlButton.style.backgroundColor = selected ? '#90EE90' : 'rgba(0, 0, 0, 0.35)';
+      htmlButton.style.color = selected ? '#1a472a' : 'white';
+      htmlButton.style.fontWeight = selected ? 'bold' : 'normal';
+    });
+
+    const description = this.element.querySelector('.mode-description') as HTMLElement;
+    if (description) {
+      description.textContent = GAME_MODES[mode].description;
+    }
   }
 
   private applyStyles(): void {
@@ -139,6 +231,33 @@ export class InstructionsOverlay {
       htmlText.style.margin = '0';
     });
 
+    // Mode box
+    const modeBox = this.element.querySelector('.mode-box') as HTMLElement;
+    if (modeBox) {
+      modeBox.style.marginBottom = '20px';
+    }
+
+    const modeButtons = this.element.querySelectorAll('.mode-button');
+    modeButtons.forEach((button) => {
+      const htmlButton = button as HTMLElement;
+      htmlButton.style.fontSize = '16px';
+      htmlButton.style.padding = '10px 24px';
+      htmlButton.style.margin = '0 8px';
+      htmlButton.style.backgroundColor = 'rgba(0, 0, 0, 0.35)';
+      htmlButton.style.color = 'white';
+      htmlButton.style.border = '2px solid #90EE90';
+      htmlButton.style.borderRadius = '20px';
+      htmlButton.style.cursor = 'pointer';
+      htmlButton.style.fontFamily = 'system-ui, -apple-system, sans-serif';
+    });
+
+    const modeDescription = this.element.querySelector('.mode-description') as HTMLElement;
+    if (modeDescription) {
+      modeDescription.style.margin = '10px 0 0 0';
+      modeDescription.style.fontSize = '13px';
+      modeDescription.style.opacity = '0.85';
+    }
+
     // Start button
     const startButton = this.element.querySelector('.start-button') as HTMLElement;
     if (startButton) {
@@ -167,6 +286,26 @@ export class InstructionsOverlay {
       };
     }
 
+    // Save box
+    const saveBox = this.element.querySelector('.save-box') as HTMLElement;
+    if (saveBox) {
+      saveBox.style.marginTop = '20px';
+    }
+
+    const saveButtons = this.element.querySelectorAll('.save-button');
+    saveButtons.forEach((button) => {
+      const htmlButton = button as HTMLElement;
+      htmlButton.style.fontSize = '14px';
+      htmlButton.style.padding = '8px 18px';
+      htmlButton.style.margin = '0 6px';
+      htmlButton.style.backgroundColor = 'rgba(0, 0, 0, 0.35)';
+      htmlButton.style.color = 'white';
+      htmlButton.style.border = '1px solid rgba(255, 215, 0, 0.5)';
+      htmlButton.style.borderRadius = '20px';
+      htmlButton.style.cursor = 'pointer';
+      htmlButton.style.fontFamily = 'system-ui, -apple-system, sans-serif';
+    });
+
     // Controls box
     const controlsBox = this.element.querySelector('.controls-box') as HTMLElement;
     if (controlsBox) {
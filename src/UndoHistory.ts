@@ -0,0 +1,56 @@
+// One reversible player action. Undo and redo are best effort: parts the world has since
+// moved past (a restored cell that is taken again, seeds already spent) are skipped.
+export interface HistoryCommand {
+  label: string; // Shown when the action is undone or redone, e.g. "break STONE"
+  size: number; // Blocks recorded; counts against the history's memory budget
+  undo(): void;
+  redo(): void;
+}
+
+// Oldest actions are forgotten past either limit
+const MAX_COMMANDS = 100;
+const MAX_RECORDED_BLOCKS = 20000;
+
+export class UndoHistory {
+  private done: HistoryCommand[] = [];
+  private undone: HistoryCommand[] = [];
+
+  // A new action invalidates everything that was undone
+  record(command: HistoryCommand): void {
+    this.done.push(command);
+    this.undone = [];
+    this.trim();
+  }
+
+  undo(): HistoryCommand | null {
+    const command = this.done.pop();
+    if (!command) return null;
+    command.undo();
+    this.undone.push(command);
+    return command;
+  }
+
+  redo(): HistoryCommand | null {
+    const command = this.undone.pop();
+    if (!command) return null;
+    command.redo();
+    this.done.push(command);
+    this.trim();
+    return command;
+  }
+
+  canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+
+  private trim(): void {
+    let recorded = [...this.done, ...this.undone].reduce((total, command) => total + command.size, 0);
+    while (this.done.length > 1 && (this.done.length > MAX_COMMANDS || recorded > MAX_RECORDED_BLOCKS)) {
+      recorded -= this.done.shift()!.size;
+    }
+  }
+}
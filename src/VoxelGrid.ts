@@ -0,0 +1,160 @@
+// Sparse voxel storage keyed by integer grid coordinates, split into cubic chunks
+
+export const VOXEL_SIZE = 0.5; // World units per grid cell (matches Block size)
+export const CHUNK_SIZE = 16; // Cells per chunk edge
+const CHUNK_VOLUME = CHUNK_SIZE * CHUNK_SIZE * CHUNK_SIZE;
+
+export interface GridPos {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface VoxelChunk<T> {
+  cx: number;
+  cy: number;
+  cz: number;
+  cells: (T | undefined)[];
+  count: number;
+}
+
+// Neighbor offsets in face order: -x, +x, -y, +y, -z, +z
+export const FACE_NEIGHBORS: readonly GridPos[] = [
+  { x: -1, y: 0, z: 0 },
+  { x: 1, y: 0, z: 0 },
+  { x: 0, y: -1, z: 0 },
+  { x: 0, y: 1, z: 0 },
+  { x: 0, y: 0, z: -1 },
+  { x: 0, y: 0, z: 1 },
+];
+
+export function worldToGrid(value: number): number {
+  return Math.round(value / VOXEL_SIZE);
+}
+
+export function gridToWorld(value: number): number {
+  return value * VOXEL_SIZE;
+}
+
+export function gridPosFromWorld(x: number, y: number, z: number): GridPos {
+  return { x: worldToGrid(x), y: worldToGrid(y), z: worldToGrid(z) };
+}
+
+export function chunkCoord(gridValue: number): number {
+  return Math.floor(gridValue / CHUNK_SIZE);
+}
+
+export function chunkKey(cx: number, cy: number, cz: number): string {
+  return `${cx},${cy},${cz}`;
+}
+
+function localIndex(x: number, y: number, z: number): number {
+  const lx = x - Math.floor(x / CHUNK_SIZE) * CHUNK_SIZE;
+  const ly = y - Math.floor(y / CHUNK_SIZE) * CHUNK_SIZE;
+  const lz = z - Math.floor(z / CHUNK_SIZE) * CHUNK_SIZE;
+  return lx + ly * CHUNK_SIZE + lz * CHUNK_SIZE * CHUNK_SIZE;
+}
+
+export class VoxelGrid<T> {
+  private chunks: Map<string, VoxelChunk<T>> = new Map();
+  private totalCount: number = 0;
+
+  get(x: number, y: number, z: number): T | undefined {
+    const chunk = this.chunks.get(chunkKey(chunkCoord(x), chunkCoord(y), chunkCoord(z)));
+    return chunk ? chunk.cells[localIndex(x, y, z)] : undefined;
+  }
+
+  has(x: number, y: number, z: number): boolean {
+    return this.get(x, y, z) !== undefined;
+  }
+
+  set(x: number, y: number, z: number, value: T): void {
+    const cx = chunkCoord(x);
+    const cy = chunkCoord(y);
+    const cz = chunkCoord(z);
+    const key = chunkKey(cx, cy, cz);
+
+    let chunk = this.chunks.get(key);
+    if (!chunk) {
+      chunk = { cx, cy, cz, cells: new Array(CHUNK_VOLUME), count: 0 };
+      this.chunks.set(key, chunk);
+    }
+
+    const index = localIndex(x, y, z);
+    if (chunk.cells[index] === undefined) {
+      chunk.count++;
+      this.totalCount++;
+    }
+    chunk.cells[index] = value;
+  }
+
+  delete(x: number, y: number, z: number): T | undefined {
+    const key = chunkKey(chunkCoord(x), chunkCoord(y), chunkCoord(z));
+    const chunk = this.chunks.get(key);
+    if (!chunk) return undefined;
+
+    const index = localIndex(x, y, z);
+    const value = chunk.cells[index];
+    if (value === undefined) return undefined;
+
+    chunk.cells[index] = undefined;
+    chunk.count--;
+    this.totalCount--;
+
+    // Drop empty chunks so iteration stays proportional to content
+    if (chunk.count === 0) {
+      this.chunks.delete(key);
+    }
+    return value;
+  }
+
+  // Occupied face-adjacent cells
+  getNeighbors(x: number, y: number, z: number): { pos: GridPos; value: T }[] {
+    const result: { pos: GridPos; value: T }[] = [];
+    for (const offset of FACE_NEIGHBORS) {
+      const pos = { x: x + offset.x, y: y + offset.y, z: z + offset.z };
+      const value = this.get(pos.x, pos.y, pos.z);
+      if (value !== undefined) {
+        result.push({ pos, value });
+      }
+    }
+    return result;
+  }
+
+  getChunk(cx: number, cy: number, cz: number): VoxelChunk<T> | undefined {
+    return this.chunks.get(chunkKey(cx, cy, cz));
+  }
+
+  forEachInChunk(chunk: VoxelChunk<T>, callback: (value: T, pos: GridPos) => void): void {
+    const baseX = chunk.cx * CHUNK_SIZE;
+    const baseY = chunk.cy * CHUNK_SIZE;
+    const baseZ = chunk.cz * CHUNK_SIZE;
+
+    for (let i = 0; i < CHUNK_VOLUME; i++) {
+      const value = chunk.cells[i];
+      if (value === undefined) continue;
+
+      const lx = i % CHUNK_SIZE;
+      const ly = Math.floor(i / CHUNK_SIZE) % CHUNK_SIZE;
+      const lz = Math.floor(i / (CHUNK_SIZE * CHUNK_SIZE));
+      callback(value, { x: baseX + lx, y: baseY + ly, z: baseZ + lz });
+    }
+  }
+
+  forEachChunk(callback: (chunk: VoxelChunk<T>) => void): void {
+    this.chunks.forEach(callback);
+  }
+
+  forEach(callback: (value: T, pos: GridPos) => void): void {
+    this.chunks.forEach((chunk) => this.forEachInChunk(chunk, callback));
+  }
+
+  get size(): number {
+    return this.totalCount;
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.totalCount = 0;
+  }
+}
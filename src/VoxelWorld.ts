@@ -0,0 +1,461 @@
+import * as THREE from 'three';
+import type RAPIER from '@dimforge/rapier3d-compat';
+import { Block } from './Block';
+import { ChunkRenderer } from './ChunkRenderer';
+import { ChunkColliders } from './ChunkColliders';
+import { StructuralIntegrity } from './StructuralIntegrity';
+import { TERRAIN_FLOOR_Y } from './TerrainGenerator';
+import { BlockColors } from './types';
+import type { BlockType } from './types';
+import { VoxelGrid, VOXEL_SIZE, chunkCoord, chunkKey, gridPosFromWorld, gridToWorld } from './VoxelGrid';
+import type { GridPos } from './VoxelGrid';
+
+// Static blocks at or below this grid row sit on the ground plane under the terrain
+const GROUND_GRID_Y = TERRAIN_FLOOR_Y;
+
+// Granular blocks slide off toward an open lower cell at this speed (world units/s)
+const TOPPLE_SPEED = 2;
+// Frames a dynamic block must stay slow before it freezes back into the grid
+const SETTLE_FRAMES = 15;
+// Stacked bodies keep creeping a little, so "at rest" is a speed, not zero
+const REST_SPEED = 0.2;
+
+const HORIZONTAL_DIRECTIONS: readonly GridPos[] = [
+  { x: -1, y: 0, z: 0 },
+  { x: 1, y: 0, z: 0 },
+  { x: 0, y: 0, z: -1 },
+  { x: 0, y: 0, z: 1 },
+];
+
+export interface BlockHit {
+  block: Block;
+  normal: THREE.Vector3; // World-space normal of the face that was hit
+  point: THREE.Vector3;
+  distance: number;
+}
+
+export class VoxelWorld {
+  private scene: THREE.Scene;
+  private staticBlocks: VoxelGrid<Block> = new VoxelGrid();
+  private dynamicBlocks: Block[] = [];
+  private dynamicMeshes: THREE.Object3D[] = [];
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private chunkRenderer: ChunkRenderer;
+  private chunkColliders: ChunkColliders;
+  private integrity: StructuralIntegrity;
+  // Cells whose granular block may need to fall or slide
+  private granularChecks: Map<string, GridPos> = new Map();
+  // Consecutive slow frames per dynamic body handle
+  private restingFrames: Map<number, number> = new Map();
+  private blockReleasedCallback: ((block: Block) => void) | null = null;
+  // Columns of chunks (keyed by chunkKey(cx, 0, cz)) whose terrain has been generated
+  private loadedAreas: Set<string> = new Set();
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.chunkRenderer = new ChunkRenderer(scene, this.staticBlocks);
+    this.chunkColliders = new ChunkColliders(this.staticBlocks);
+    this.integrity = new StructuralIntegrity(this.staticBlocks, GROUND_GRID_Y);
+  }
+
+  // Create a block of the given type and register it
+  addBlock(x: number, y: number, z: number, type: BlockType, isStatic: boolean = true): Block {
+    // Static world blocks are drawn and collided by their chunk
+    const block = new Block(this.scene, x, y, z, BlockColors[type], isStatic, type, isStatic);
+    this.insertBlock(block);
+    return block;
+  }
+
+  // Register a block created elsewhere (e.g. crops)
+  insertBlock(block: Block): void {
+    if (!block.isStatic()) {
+      this.dynamicBlocks.push(block);
+      this.dynamicMeshes.push(block.mesh);
+      return;
+    }
+
+    const pos = this.getGridPos(block);
+    const existing = this.staticBlocks.get(pos.x, pos.y, pos.z);
+    if (existing) {
+      // Later placements replace whatever was in the cell
+      existing.destroy();
+    }
+    this.staticBlocks.set(pos.x, pos.y, pos.z, block);
+    this.markCellDirty(pos);
+  }
+
+  // Unregister and destroy a block
+  removeBlock(block: Block): void {
+    if (block.isStatic()) {
+      const pos = this.getGridPos(block);
+      if (this.staticBlocks.get(pos.x, pos.y, pos.z) === block) {
+        this.staticBlocks.delete(pos.x, pos.y, pos.z);
+        this.markCellDirty(pos);
+        this.queueGranularAround(pos);
+      }
+    } else {
+      this.untrackDynamic(block);
+    }
+    block.destroy();
+  }
+
+  markAreaLoaded(cx: number, cz: number): void {
+    this.loadedAreas.add(chunkKey(cx, 0, cz));
+  }
+
+  isAreaLoaded(cx: number, cz: number): boolean {
+    return this.loadedAreas.has(chunkKey(cx, 0, cz));
+  }
+
+  forEachLoadedArea(callback: (cx: number, cz: number) => void): void {
+    Array.from(this.loadedAreas).forEach((key) => {
+      const [cx, , cz] = key.split(',').map(Number);
+      callback(cx, cz);
+    });
+  }
+
+  // Static blocks in every chunk of a column
+  getAreaBlocks(cx: number, cz: number): Block[] {
+    const blocks: Block[] = [];
+    this.staticBlocks.forEachChunk((chunk) => {
+      if (chunk.cx !== cx || chunk.cz !== cz) return;
+      this.staticBlocks.forEachInChunk(chunk, (block) => blocks.push(block));
+    });
+    return blocks;
+  }
+
+  hasDynamicBlocksInArea(cx: number, cz: number): boolean {
+    return this.dynamicBlocks.some((block) => {
+      const pos = this.getGridPos(block);
+      return chunkCoord(pos.x) === cx && chunkCoord(pos.z) === cz;
+    });
+  }
+
+  // Drop a column's static blocks without disturbing its neighbors; nothing collapses or pours
+  unloadArea(cx: number, cz: number): void {
+    this.getAreaBlocks(cx, cz).forEach((block) => {
+      const pos = this.getGridPos(block);
+      this.staticBlocks.delete(pos.x, pos.y, pos.z);
+      this.granularChecks.delete(`${pos.x},${pos.y},${pos.z}`);
+      this.markCellDirty(pos);
+      block.destroy();
+    });
+    this.loadedAreas.delete(chunkKey(cx, 0, cz));
+  }
+
+  // False once the block has been removed from the world
+  hasBlock(block: Block): boolean {
+    if (!block.isStatic()) return this.dynamicBlocks.includes(block);
+    const pos = this.getGridPos(block);
+    return this.staticBlocks.get(pos.x, pos.y, pos.z) === block;
+  }
+
+  // Called with each static block just before it breaks loose (still at its grid cell)
+  registerBlockReleasedCallback(callback: (block: Block) => void): void {
+    this.blockReleasedCallback = callback;
+  }
+
+  getGridPos(block: Block): GridPos {
+    const pos = block.position;
+    return gridPosFromWorld(pos.x, pos.y, pos.z);
+  }
+
+  // Held up from the side (an overhang, a bridge or a roof) instead of standing on a column
+  // down to the ground
+  isOverhanging(block: Block): boolean {
+    return !this.integrity.isGrounded(this.getGridPos(block));
+  }
+
+  getBlockAtGrid(x: number, y: number, z: number): Block | undefined {
+    return this.staticBlocks.get(x, y, z);
+  }
+
+  getBlockAt(x: number, y: number, z: number): Block | undefined {
+    const pos = gridPosFromWorld(x, y, z);
+    return this.staticBlocks.get(pos.x, pos.y, pos.z);
+  }
+
+  // True if a static block or a dynamic block overlaps the cell
+  isOccupied(x: number, y: number, z: number): boolean {
+    return this.getBlockAt(x, y, z) !== undefined || this.hasDynamicBlockAt(x, y, z);
+  }
+
+  private hasDynamicBlockAt(x: number, y: number, z: number, ignore?: Set<Block>): boolean {
+    const halfSize = VOXEL_SIZE / 2;
+    return this.dynamicBlocks.some((block) => {
+      if (ignore?.has(block)) return false;
+      const pos = block.position;
+      return (
+        Math.abs(pos.x - x) < halfSize &&
+        Math.abs(pos.y - y) < halfSize &&
+        Math.abs(pos.z - z) < halfSize
+      );
+    });
+  }
+
+  convertToDynamic(block: Block): void {
+    this.convertGroupToDynamic([block]);
+  }
+
+  // Blocks in a group stay rigidly joined while they fall
+  convertGroupToDynamic(blocks: Block[]): void {
+    const group = blocks.filter((block) => block.isStatic());
+    group.forEach((block) => {
+      this.blockReleasedCallback?.(block);
+      const pos = this.getGridPos(block);
+      if (this.staticBlocks.get(pos.x, pos.y, pos.z) === block) {
+        this.staticBlocks.delete(pos.x, pos.y, pos.z);
+        this.markCellDirty(pos);
+        this.queueGranularAround(pos);
+      }
+    });
+
+    Block.convertGroupToDynamic(group);
+    group.forEach((block) => {
+      this.dynamicBlocks.push(block);
+      this.dynamicMeshes.push(block.mesh);
+    });
+  }
+
+  // After the cell at (x, y, z) changes, drop every cluster that lost its support
+  collapseUnsupported(x: number, y: number, z: number): Block[] {
+    return this.collapseCells([gridPosFromWorld(x, y, z)]);
+  }
+
+  // Same, for many changed cells at once
+  collapseCells(cells: GridPos[]): Block[] {
+    // Crops are left to the crop system, which pulls them up along with their soil
+    const clusters = this.integrity
+      .findDetachedClusters(cells)
+      .map((cluster) => cluster.filter((block) => block.blockType !== null))
+      .filter((cluster) => cluster.length > 0);
+    clusters.forEach((cluster) => {
+      // Loose material pours out instead of falling as part of the piece
+      cluster.filter((block) => block.material.granular).forEach((block) => this.convertToDynamic(block));
+      this.convertGroupToDynamic(cluster.filter((block) => !block.material.granular));
+    });
+    return clusters.flat();
+  }
+
+  // Solid ground for granular blocks: a static block, anything below the ground plane, or
+  // ground that isn't loaded (so sand never pours off the edge of the world)
+  private isSolidCell(x: number, y: number, z: number): boolean {
+    return (
+      y < GROUND_GRID_Y ||
+      this.staticBlocks.has(x, y, z) ||
+      !this.loadedAreas.has(chunkKey(chunkCoord(x), 0, chunkCoord(z)))
+    );
+  }
+
+  // An emptied cell can drop the block above it, unload the one below, or let neighbors slide into it
+  private queueGranularAround(pos: GridPos): void {
+    this.queueGranularCheck({ x: pos.x, y: pos.y + 1, z: pos.z });
+    this.queueGranularCheck({ x: pos.x, y: pos.y - 1, z: pos.z });
+    HORIZONTAL_DIRECTIONS.forEach((dir) => {
+      this.queueGranularCheck({ x: pos.x + dir.x, y: pos.y, z: pos.z + dir.z });
+      this.queueGranularCheck({ x: pos.x + dir.x, y: pos.y + 1, z: pos.z + dir.z });
+    });
+  }
+
+  private queueGranularCheck(pos: GridPos): void {
+    this.granularChecks.set(`${pos.x},${pos.y},${pos.z}`, pos);
+  }
+
+  // Granular blocks fall into an empty cell below, or slide off while the slope is
+  // steeper than one cell down per cell across (the angle of repose)
+  private updateGranular(): void {
+    if (this.granularChecks.size === 0) return;
+
+    // Cells emptied while processing are handled next frame, so piles pour over time
+    const cells = Array.from(this.granularChecks.values());
+    this.granularChecks.clear();
+
+    cells.forEach((pos) => {
+      const block = this.staticBlocks.get(pos.x, pos.y, pos.z);
+      if (!block || !block.material.granular) return;
+
+      if (!this.isSolidCell(pos.x, pos.y - 1, pos.z)) {
+        this.convertToDynamic(block);
+        return;
+      }
+
+      // Piles erode from the top; a loaded grain stays put
+      if (this.staticBlocks.has(pos.x, pos.y + 1, pos.z)) return;
+      if (this.isOccupied(gridToWorld(pos.x), gridToWorld(pos.y + 1), gridToWorld(pos.z))) {
+        // Look again once whatever is moving on top has settled or moved on
+        this.queueGranularCheck(pos);
+        return;
+      }
+
+      const slopes = HORIZONTAL_DIRECTIONS.filter(
+        (dir) =>
+          !this.isSolidCell(pos.x + dir.x, pos.y, pos.z + dir.z) &&
+          !this.isSolidCell(pos.x + dir.x, pos.y - 1, pos.z + dir.z)
+      );
+      if (slopes.length === 0) return;
+
+      const dir = slopes[Math.floor(Math.random() * slopes.length)];
+      this.convertToDynamic(block);
+      block.rigidBody?.setLinvel({ x: dir.x * TOPPLE_SPEED, y: 0, z: dir.z * TOPPLE_SPEED }, true);
+    });
+  }
+
+  // Dynamic bodies that come to rest rejoin the static grid, so long sessions don't
+  // pile up active bodies. Blocks sharing a body settle together.
+  private settleDynamicBlocks(): void {
+    const bodies: Map<RAPIER.RigidBody, Block[]> = new Map();
+    this.dynamicBlocks.forEach((block) => {
+      if (!block.rigidBody) return;
+      const members = bodies.get(block.rigidBody);
+      if (members) {
+        members.push(block);
+      } else {
+        bodies.set(block.rigidBody, [block]);
+      }
+    });
+
+    // Rebuilt every frame so counts of removed bodies don't linger
+    const restingFrames: Map<number, number> = new Map();
+    bodies.forEach((members, body) => {
+      if (!this.isResting(body, members)) return;
+
+      const frames = (this.restingFrames.get(body.handle) ?? 0) + 1;
+      if (frames < SETTLE_FRAMES) {
+        restingFrames.set(body.handle, frames);
+        return;
+      }
+      this.freezeBlocks(members);
+    });
+    this.restingFrames = restingFrames;
+  }
+
+  private isResting(body: RAPIER.RigidBody, members: Block[]): boolean {
+    const linvel = body.linvel();
+    const angvel = body.angvel();
+    if (Math.hypot(linvel.x, linvel.y, linvel.z) >= REST_SPEED) return false;
+    if (Math.hypot(angvel.x, angvel.y, angvel.z) >= REST_SPEED) return false;
+
+    // Wait for anything loose underneath to settle first; a block balanced on an
+    // edge snaps into its cell and then drops straight down
+    const own = new Set(members);
+    return members.every((block) => {
+      const pos = this.getGridPos(block);
+      if (this.isSolidCell(pos.x, pos.y - 1, pos.z)) return true;
+      return !this.hasDynamicBlockAt(gridToWorld(pos.x), gridToWorld(pos.y - 1), gridToWorld(pos.z), own);
+    });
+  }
+
+  private freezeBlocks(blocks: Block[]): void {
+    const cells: GridPos[] = [];
+    blocks.forEach((block) => {
+      const pos = this.getGridPos(block);
+      // Resting on top of something that shares the rounded cell
+      while (this.staticBlocks.has(pos.x, pos.y, pos.z)) pos.y++;
+
+      this.untrackDynamic(block);
+      block.freeze(gridToWorld(pos.x), gridToWorld(pos.y), gridToWorld(pos.z));
+      this.insertBlock(block);
+      cells.push(pos);
+      // Sand may still be sitting on a slope that is too steep
+      this.queueGranularCheck(pos);
+    });
+
+    // Anything that froze without real support (caught on an edge, leaning on a wall) drops again
+    this.collapseCells(cells);
+  }
+
+  // Rebuild changed chunk colliders; call before stepping physics
+  updatePhysics(): void {
+    this.chunkColliders.update();
+  }
+
+  update(): void {
+    // Static blocks never move, so only dynamic ones need syncing
+    this.dynamicBlocks.forEach((block) => block.update());
+    this.settleDynamicBlocks();
+    this.updateGranular();
+    this.chunkRenderer.update();
+  }
+
+  // Voxel traversal (Amanatides & Woo) through the static grid, plus a mesh test for dynamic blocks
+  raycast(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number = 64): BlockHit | null {
+    const dir = direction.clone().normalize();
+    let best: BlockHit | null = null;
+
+    // Work in cell units where cell n spans [n, n + 1)
+    const u = [origin.x / VOXEL_SIZE + 0.5, origin.y / VOXEL_SIZE + 0.5, origin.z / VOXEL_SIZE + 0.5];
+    const d = [dir.x, dir.y, dir.z];
+    const cell = u.map(Math.floor);
+    const step = d.map((v) => (v > 0 ? 1 : v < 0 ? -1 : 0));
+    const tMax = d.map((v, i) => {
+      if (v === 0) return Infinity;
+      const boundary = v > 0 ? cell[i] + 1 - u[i] : u[i] - cell[i];
+      return (boundary * VOXEL_SIZE) / Math.abs(v);
+    });
+    const tDelta = d.map((v) => (v === 0 ? Infinity : VOXEL_SIZE / Math.abs(v)));
+
+    let t = 0;
+    while (t <= maxDistance) {
+      const axis = tMax[0] < tMax[1] ? (tMax[0] < tMax[2] ? 0 : 2) : tMax[1] < tMax[2] ? 1 : 2;
+      t = tMax[axis];
+      if (t > maxDistance) break;
+      cell[axis] += step[axis];
+      tMax[axis] += tDelta[axis];
+
+      const block = this.staticBlocks.get(cell[0], cell[1], cell[2]);
+      if (block) {
+        const normal = new THREE.Vector3();
+        normal.setComponent(axis, -step[axis]);
+        best = {
+          block,
+          normal,
+          point: origin.clone().addScaledVector(dir, t),
+          distance: t,
+        };
+        break;
+      }
+    }
+
+    if (this.dynamicMeshes.length > 0) {
+      this.raycaster.set(origin, dir);
+      this.raycaster.far = best ? best.distance : maxDistance;
+      const intersects = this.raycaster.intersectObjects(this.dynamicMeshes, false);
+      if (intersects.length > 0 && intersects[0].face) {
+        const hit = intersects[0];
+        const block = this.dynamicBlocks.find((b) => b.mesh === hit.object);
+        if (block) {
+          best = {
+            block,
+            normal: hit.face!.normal.clone().transformDirection(hit.object.matrixWorld),
+            point: hit.point.clone(),
+            distance: hit.distance,
+          };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  forEachBlock(callback: (block: Block) => void): void {
+    this.staticBlocks.forEach((block) => callback(block));
+    this.dynamicBlocks.forEach(callback);
+  }
+
+  getBlockCount(): number {
+    return this.staticBlocks.size + this.dynamicBlocks.length;
+  }
+
+  private markCellDirty(pos: GridPos): void {
+    this.chunkRenderer.markDirty(pos.x, pos.y, pos.z);
+    this.chunkColliders.markDirty(pos.x, pos.y, pos.z);
+  }
+
+  private untrackDynamic(block: Block): void {
+    const index = this.dynamicBlocks.indexOf(block);
+    if (index > -1) {
+      this.dynamicBlocks.splice(index, 1);
+      this.dynamicMeshes.splice(index, 1);
+    }
+  }
+}
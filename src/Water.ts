@@ -0,0 +1,62 @@
+import * as THREE from 'three';
+import { VOXEL_SIZE, gridToWorld } from './VoxelGrid';
+
+// Flat, see-through water surfaces; water has no collider, so things sink to the bed
+export class Water {
+  private scene: THREE.Scene;
+  private material: THREE.MeshStandardMaterial;
+  private meshes: Map<string, THREE.Mesh> = new Map();
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+    this.material = new THREE.MeshStandardMaterial({
+      color: 0x3a7bd5,
+      transparent: true,
+      opacity: 0.65,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    });
+  }
+
+  // Replace the water surface for one terrain area; columns are grid (x, z) cells
+  setArea(key: string, columns: { x: number; z: number }[], surfaceRow: number): void {
+    this.removeArea(key);
+    if (columns.length === 0) return;
+
+    // Just under the top of the surface row so the shore blocks frame it
+    const y = gridToWorld(surfaceRow) + VOXEL_SIZE * 0.35;
+    const half = VOXEL_SIZE / 2;
+    const positions: number[] = [];
+    const indices: number[] = [];
+    columns.forEach(({ x, z }, i) => {
+      const cx = gridToWorld(x);
+      const cz = gridToWorld(z);
+      positions.push(cx - half, y, cz - half, cx + half, y, cz - half, cx + half, y, cz + half, cx - half, y, cz + half);
+      const base = i * 4;
+      indices.push(base, base + 2, base + 1, base, base + 3, base + 2);
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+
+    const mesh = new THREE.Mesh(geometry, this.material);
+    mesh.receiveShadow = true;
+    this.scene.add(mesh);
+    this.meshes.set(key, mesh);
+  }
+
+  removeArea(key: string): void {
+    const mesh = this.meshes.get(key);
+    if (!mesh) return;
+    this.scene.remove(mesh);
+    mesh.geometry.dispose();
+    this.meshes.delete(key);
+  }
+
+  dispose(): void {
+    Array.from(this.meshes.keys()).forEach((key) => this.removeArea(key));
+    this.material.dispose();
+  }
+}
@@ -0,0 +1,341 @@
+import * as THREE from 'three';
+import type { Season } from './EventSystem';
+import type { TimeManager } from './TimeManager';
+import type { WeatherSound } from './Sound';
+import { soundManager } from './Sound';
+import { createRandom } from './Noise';
+
+export type WeatherType = 'SUNNY' | 'CLOUDY' | 'RAIN' | 'THUNDERSTORM' | 'DROUGHT' | 'SNOW';
+export type Precipitation = 'rain' | 'snow';
+
+export interface WeatherData {
+  name: string;
+  icon: string;
+  description: string; // Shown in the forecast
+  chances: Record<Season, number>; // Relative odds of a day of this weather in each season
+  light: number; // Sunlight scale
+  overcast: number; // How far the sky turns to skyColor, 0 to 1
+  skyColor: number;
+  fogDistance: number | null; // Where fog fully hides the world
+  precipitation: Precipitation | null;
+  sound: WeatherSound | null;
+  watersSoil: boolean; // Soaks every field under open sky
+  drying: number; // Extra soil moisture lost overnight
+  lightning: boolean;
+}
+
+export const WEATHER_TYPES: Record<WeatherType, WeatherData> = {
+  SUNNY: {
+    name: 'Sunny',
+    icon: '☀️',
+    description: 'Clear skies',
+    chances: { SPRING: 4, SUMMER: 5, FALL: 3, WINTER: 3 },
+    light: 1,
+    overcast: 0,
+    skyColor: 0x9aa3ad,
+    fogDistance: null,
+    precipitation: null,
+    sound: null,
+    watersSoil: false,
+    drying: 0,
+    lightning: false,
+  },
+  CLOUDY: {
+    name: 'Cloudy',
+    icon: '☁️',
+    description: 'Grey but dry',
+    chances: { SPRING: 3, SUMMER: 2, FALL: 4, WINTER: 3 },
+    light: 0.7,
+    overcast: 0.6,
+    skyColor: 0x9aa3ad,
+    fogDistance: null,
+    precipitation: null,
+    sound: null,
+    watersSoil: false,
+    drying: 0,
+    lightning: false,
+  },
+  RAIN: {
+    name: 'Rain',
+    icon: '🌧️',
+    description: 'Waters every field under open sky',
+    chances: { SPRING: 3, SUMMER: 1, FALL: 3, WINTER: 0 },
+    light: 0.5,
+    overcast: 0.85,
+    skyColor: 0x7d8691,
+    fogDistance: 60,
+    precipitation: 'rain',
+    sound: 'rain',
+    watersSoil: true,
+    drying: 0,
+    lightning: false,
+  },
+  THUNDERSTORM: {
+    name: 'Thunderstorm',
+    icon: '⛈️',
+    description: 'Waters fields, frightens animals and can bring down overhangs',
+    chances: { SPRING: 1, SUMMER: 1, FALL: 1, WINTER: 0 },
+    light: 0.35,
+    overcast: 1,
+    skyColor: 0x4f5661,
+    fogDistance: 45,
+    precipitation: 'rain',
+    sound: 'storm',
+    watersSoil: true,
+    drying: 0,
+    lightning: true,
+  },
+  DROUGHT: {
+    name: 'Drought',
+    icon: '🔥',
+    description: 'Scorching heat, soil dries out much faster',
+    chances: { SPRING: 0, SUMMER: 2, FALL: 1, WINTER: 0 },
+    light: 1.15,
+    overcast: 0.35,
+    skyColor: 0xe8c9a0,
+    fogDistance: 90,
+    precipitation: null,
+    sound: null,
+    watersSoil: false,
+    drying: 0.3,
+    lightning: false,
+  },
+  SNOW: {
+    name: 'Snow',
+    icon: '🌨️',
+    description: 'Too cold for most crops',
+    chances: { SPRING: 0, SUMMER: 0, FALL: 0, WINTER: 4 },
+    light: 0.6,
+    overcast: 0.8,
+    skyColor: 0xc9d3dc,
+    fogDistance: 35,
+    precipitation: 'snow',
+    sound: 'wind',
+    watersSoil: false,
+    drying: 0,
+    lightning: false,
+  },
+};
+
+const PRECIPITATION_COUNT = 1500;
+const PRECIPITATION_RADIUS = 16; // Drops fill a box this far around the player
+const PRECIPITATION_HEIGHT = 20;
+const RAIN_SPEED = 14;
+const SNOW_SPEED = 1.5;
+const CLEAR_FOG_DISTANCE = 400; // Past anything loaded, so clear days have no visible fog
+const BLEND_SPEED = 0.3; // Share of the way to the new weather's look covered each second
+const LIGHTNING_INTERVAL = { min: 5, max: 15 }; // Seconds between strikes
+const LIGHTNING_RADIUS = 24; // Strikes land this far around the player
+const SOUND_SPEED = 60; // World units per second, slowed down so thunder lags visibly
+
+// Generates each day's weather from the world seed and the season, so the forecast for coming
+// days never changes, and draws it: rain or snow around the player, dimmer light, grey skies,
+// fog and lightning. Gameplay effects (watering, drying, storm damage) are up to the caller.
+export class WeatherSystem {
+  private timeManager: TimeManager;
+  private getSeason: (day: number) => Season;
+  private seed: number = 0;
+  private current: WeatherType = 'SUNNY';
+
+  // The look eases from the previous weather into the current one
+  private light: number = 1;
+  private overcast: number = 0;
+  private fogDistance: number = CLEAR_FOG_DISTANCE;
+  private fog: THREE.Fog;
+
+  private precipitation: THREE.Points;
+  private drops: Float32Array;
+  private rainMaterial: THREE.PointsMaterial;
+  private snowMaterial: THREE.PointsMaterial;
+  private time: number = 0;
+
+  private flash: number = 0;
+  private lightningTimer: number = LIGHTNING_INTERVAL.max;
+  private pendingThunder: { delay: number; closeness: number }[] = [];
+  private onLightning: ((position: THREE.Vector3) => void)[] = [];
+
+  constructor(scene: THREE.Scene, timeManager: TimeManager, getSeason: (day: number) => Season) {
+    this.timeManager = timeManager;
+    this.getSeason = getSeason;
+
+    this.fog = new THREE.Fog(0x87ceeb, CLEAR_FOG_DISTANCE, CLEAR_FOG_DISTANCE);
+    scene.fog = this.fog;
+
+    this.drops = new Float32Array(PRECIPITATION_COUNT * 3);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(this.drops, 3));
+    this.rainMaterial = new THREE.PointsMaterial({
+      color: 0xaac8ff,
+      size: 0.06,
+      transparent: true,
+      opacity: 0.6,
+      depthWrite: false,
+    });
+    this.snowMaterial = new THREE.PointsMaterial({
+      color: 0xffffff,
+      size: 0.12,
+      transparent: true,
+      opacity: 0.9,
+      depthWrite: false,
+    });
+    this.precipitation = new THREE.Points(geometry, this.rainMaterial);
+    // The drops move every frame, so the bounding sphere is never current
+    this.precipitation.frustumCulled = false;
+    this.precipitation.visible = false;
+    scene.add(this.precipitation);
+  }
+
+  setSeed(seed: number): void {
+    this.seed = seed;
+  }
+
+  // The same seed and day always give the same weather
+  getWeather(day: number): WeatherType {
+    // Every farm starts on a fine day
+    if (day <= 1) return 'SUNNY';
+
+    const random = createRandom(this.seed + day * 0x9e3779b9);
+    const season = this.getSeason(day);
+    const types = Object.keys(WEATHER_TYPES) as WeatherType[];
+    const total = types.reduce((sum, type) => sum + WEATHER_TYPES[type].chances[season], 0);
+    let roll = random() * total;
+    for (const type of types) {
+      roll -= WEATHER_TYPES[type].chances[season];
+      if (roll < 0) return type;
+    }
+    return 'SUNNY';
+  }
+
+  // Weather for the given number of days after today
+  getForecast(today: number, days: number): WeatherType[] {
+    return Array.from({ length: days }, (_, i) => this.getWeather(today + 1 + i));
+  }
+
+  getCurrent(): WeatherType {
+    return this.current;
+  }
+
+  // Switch to the day's weather; the sky and fog ease into it
+  startDay(day: number): void {
+    this.current = this.getWeather(day);
+    const data = WEATHER_TYPES[this.current];
+    soundManager.setWeatherSound(data.sound);
+    this.pendingThunder = [];
+    this.lightningTimer = this.nextLightningDelay();
+
+    if (data.precipitation) {
+      this.precipitation.material = data.precipitation === 'snow' ? this.snowMaterial : this.rainMaterial;
+      // Scatter fresh drops through the whole box rather than all starting at the top
+      for (let i = 0; i < this.drops.length; i += 3) {
+        this.drops[i] = Infinity;
+      }
+    }
+    this.precipitation.visible = data.precipitation !== null;
+  }
+
+  // center: the player's eyes. viewOffset: how far the drawing camera sits back from them, so
+  // fog thickens around the player rather than around a camera high above the farm.
+  update(deltaTime: number, center: THREE.Vector3, viewOffset: number): void {
+    const data = WEATHER_TYPES[this.current];
+    this.time += deltaTime;
+
+    const blend = Math.min(1, BLEND_SPEED * deltaTime);
+    this.light += (data.light - this.light) * blend;
+    this.overcast += (data.overcast - this.overcast) * blend;
+    this.fogDistance += ((data.fogDistance ?? CLEAR_FOG_DISTANCE) - this.fogDistance) * blend;
+    this.fog.far = this.fogDistance + viewOffset;
+    this.fog.near = this.fogDistance * 0.2 + viewOffset;
+
+    if (data.lightning) {
+      this.updateLightning(deltaTime, center);
+    }
+    this.flash = Math.max(0, this.flash - deltaTime * 4);
+    // Flicker while the flash fades
+    const flashLight = this.flash > 0 ? this.flash * (1.5 + Math.sin(this.time * 60)) : 0;
+    this.timeManager.setWeatherLighting(this.light + flashLight, this.overcast, data.skyColor);
+
+    if (data.precipitation) {
+      this.updatePrecipitation(deltaTime, center, data.precipitation, data.lightning);
+    }
+  }
+
+  // Called with where each bolt lands
+  registerLightningCallback(callback: (position: THREE.Vector3) => void): void {
+    this.onLightning.push(callback);
+  }
+
+  private updateLightning(deltaTime: number, center: THREE.Vector3): void {
+    this.pendingThunder = this.pendingThunder.filter((thunder) => {
+      thunder.delay -= deltaTime;
+      if (thunder.delay > 0) return true;
+      soundManager.playThunder(thunder.closeness);
+      return false;
+    });
+
+    this.lightningTimer -= deltaTime;
+    if (this.lightningTimer > 0) return;
+    this.lightningTimer = this.nextLightningDelay();
+
+    const angle = Math.random() * Math.PI * 2;
+    const distance = Math.random() * LIGHTNING_RADIUS;
+    const strike = new THREE.Vector3(
+      center.x + Math.cos(angle) * distance,
+      center.y,
+      center.z + Math.sin(angle) * distance
+    );
+    this.flash = 1;
+    this.pendingThunder.push({ delay: distance / SOUND_SPEED, closeness: 1 - (distance / LIGHTNING_RADIUS) * 0.6 });
+    this.onLightning.forEach((callback) => callback(strike));
+  }
+
+  private nextLightningDelay(): number {
+    return LIGHTNING_INTERVAL.min + Math.random() * (LIGHTNING_INTERVAL.max - LIGHTNING_INTERVAL.min);
+  }
+
+  // Drops fall through a box around the player and wrap back into it, so walking through the
+  // weather never leaves it behind
+  private updatePrecipitation(
+    deltaTime: number,
+    center: THREE.Vector3,
+    type: Precipitation,
+    windy: boolean
+  ): void {
+    const fall = (type === 'snow' ? SNOW_SPEED : RAIN_SPEED) * deltaTime;
+    const drift = windy ? fall * 0.3 : 0; // Storm rain slants in the wind
+    const size = PRECIPITATION_RADIUS * 2;
+
+    for (let i = 0; i < this.drops.length; i += 3) {
+      let x = this.drops[i];
+      let y = this.drops[i + 1];
+      let z = this.drops[i + 2];
+
+      if (!Number.isFinite(x)) {
+        x = center.x + (Math.random() - 0.5) * size;
+        y = center.y + (Math.random() - 0.5) * PRECIPITATION_HEIGHT;
+        z = center.z + (Math.random() - 0.5) * size;
+      }
+
+      y -= fall;
+      x += drift;
+      if (type === 'snow') {
+        // Flakes sway as they fall, each on its own phase
+        x += Math.sin(this.time + i) * deltaTime * 0.3;
+        z += Math.cos(this.time * 0.7 + i) * deltaTime * 0.3;
+      }
+
+      x = center.x + this.wrap(x - center.x, size);
+      y = center.y + this.wrap(y - center.y, PRECIPITATION_HEIGHT);
+      z = center.z + this.wrap(z - center.z, size);
+
+      this.drops[i] = x;
+      this.drops[i + 1] = y;
+      this.drops[i + 2] = z;
+    }
+    this.precipitation.geometry.attributes.position.needsUpdate = true;
+  }
+
+  // Into the range -size/2 to size/2
+  private wrap(offset: number, size: number): number {
+    return ((((offset + size / 2) % size) + size) % size) - size / 2;
+  }
+}
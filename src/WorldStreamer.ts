@@ -0,0 +1,211 @@
+import type * as THREE from 'three';
+import type { Block } from './Block';
+import type { VoxelWorld } from './VoxelWorld';
+import type { Water } from './Water';
+import type { SaveData, SavedBlock } from './SaveSystem';
+import { TerrainGenerator } from './TerrainGenerator';
+import { FARM_LOTS, generateTerrainArea } from './Terrain';
+import { chunkCoord, chunkKey, gridPosFromWorld, worldToGrid } from './VoxelGrid';
+
+// Areas (columns of chunks) within this many areas of the player are generated
+const LOAD_RADIUS = 5;
+// Areas beyond this are unloaded; the gap keeps areas on the boundary from flickering
+const UNLOAD_RADIUS = 7;
+// Areas loaded and unloaded per frame, so travelling doesn't stall on a burst of work
+const AREAS_PER_FRAME = 1;
+
+interface Area {
+  cx: number;
+  cz: number;
+}
+
+function cellKey(x: number, y: number, z: number): string {
+  return `${x},${y},${z}`;
+}
+
+// Generates terrain around the player and unloads it again far away. Edits to the generated
+// world are tracked here so they survive both unloading and saving.
+export class WorldStreamer {
+  private world: VoxelWorld;
+  private water: Water;
+  private generator: TerrainGenerator;
+  // The farm is only built once, so its areas never unload
+  private pinnedAreas: Set<string> = new Set();
+  // Player-placed blocks, plus generated blocks that fell somewhere else
+  private placedBlocks: Set<Block> = new Set();
+  // The same, for areas that are unloaded right now
+  private parkedBlocks: Map<string, SavedBlock[]> = new Map();
+  // Grid cells of generated blocks that were broken or knocked out of place
+  private removedCells: Set<string> = new Set();
+
+  constructor(world: VoxelWorld, water: Water, seed: number) {
+    this.world = world;
+    this.water = water;
+    this.generator = new TerrainGenerator(seed, FARM_LOTS);
+
+    FARM_LOTS.forEach((lot) => {
+      for (let cx = chunkCoord(lot.x); cx <= chunkCoord(lot.x + lot.width - 1); cx++) {
+        for (let cz = chunkCoord(lot.z); cz <= chunkCoord(lot.z + lot.depth - 1); cz++) {
+          this.pinnedAreas.add(chunkKey(cx, 0, cz));
+        }
+      }
+    });
+  }
+
+  // Generate the farm and everything in range right away (at startup)
+  loadAround(position: THREE.Vector3): void {
+    this.pinnedAreas.forEach((key) => {
+      const [cx, , cz] = key.split(',').map(Number);
+      this.loadArea(cx, cz);
+    });
+    this.getAreasInRange(position, LOAD_RADIUS).forEach(({ cx, cz }) => this.loadArea(cx, cz));
+  }
+
+  update(position: THREE.Vector3): void {
+    this.getAreasInRange(position, LOAD_RADIUS)
+      .filter(({ cx, cz }) => !this.world.isAreaLoaded(cx, cz))
+      .slice(0, AREAS_PER_FRAME)
+      .forEach(({ cx, cz }) => this.loadArea(cx, cz));
+
+    const center = this.getAreaAt(position);
+    let unloaded = 0;
+    this.world.forEachLoadedArea((cx, cz) => {
+      if (unloaded >= AREAS_PER_FRAME) return;
+      if (Math.hypot(cx - center.cx, cz - center.cz) <= UNLOAD_RADIUS) return;
+      if (this.unloadArea(cx, cz)) unloaded++;
+    });
+  }
+
+  // A block the player placed, or a generated block that broke loose and has to be saved where it lands
+  trackPlaced(block: Block): void {
+    this.placedBlocks.add(block);
+  }
+
+  // A block left its cell for good (broken, or about to fall)
+  trackRemoved(block: Block): void {
+    if (this.placedBlocks.delete(block)) return;
+    const pos = this.world.getGridPos(block);
+    this.removedCells.add(cellKey(pos.x, pos.y, pos.z));
+  }
+
+  getSaveState(): SaveData['world'] {
+    const placedBlocks: SavedBlock[] = [];
+    this.placedBlocks.forEach((block) => {
+      const saved = this.toSavedBlock(block);
+      if (saved) placedBlocks.push(saved);
+    });
+    this.parkedBlocks.forEach((blocks) => placedBlocks.push(...blocks));
+
+    const removedBlocks = Array.from(this.removedCells).map((key) => {
+      const [x, y, z] = key.split(',').map(Number);
+      return { x: x / 2, y: y / 2, z: z / 2 };
+    });
+
+    return { seed: this.generator.seed, removedBlocks, placedBlocks };
+  }
+
+  // Apply saved edits on top of freshly generated terrain; edits in unloaded areas wait until they load
+  loadSaveState(state: SaveData['world']): void {
+    state.removedBlocks.forEach((saved) => {
+      const pos = gridPosFromWorld(saved.x, saved.y, saved.z);
+      this.removedCells.add(cellKey(pos.x, pos.y, pos.z));
+      const block = this.world.getBlockAtGrid(pos.x, pos.y, pos.z);
+      if (block) {
+        this.world.removeBlock(block);
+      }
+    });
+
+    state.placedBlocks.forEach((saved) => {
+      const pos = gridPosFromWorld(saved.x, saved.y, saved.z);
+      const cx = chunkCoord(pos.x);
+      const cz = chunkCoord(pos.z);
+      if (this.world.isAreaLoaded(cx, cz)) {
+        this.trackPlaced(this.world.addBlock(saved.x, saved.y, saved.z, saved.type, saved.isStatic));
+      } else {
+        this.parkBlock(chunkKey(cx, 0, cz), saved);
+      }
+    });
+  }
+
+  private loadArea(cx: number, cz: number): void {
+    if (this.world.isAreaLoaded(cx, cz)) return;
+    generateTerrainArea(this.world, this.water, this.generator, cx, cz);
+
+    this.removedCells.forEach((key) => {
+      const [x, y, z] = key.split(',').map(Number);
+      if (chunkCoord(x) !== cx || chunkCoord(z) !== cz) return;
+      const block = this.world.getBlockAtGrid(x, y, z);
+      if (block) {
+        this.world.removeBlock(block);
+      }
+    });
+
+    const key = chunkKey(cx, 0, cz);
+    this.parkedBlocks.get(key)?.forEach((saved) => {
+      this.trackPlaced(this.world.addBlock(saved.x, saved.y, saved.z, saved.type, saved.isStatic));
+    });
+    this.parkedBlocks.delete(key);
+  }
+
+  // Returns false if the area has to stay loaded for now
+  private unloadArea(cx: number, cz: number): boolean {
+    const key = chunkKey(cx, 0, cz);
+    if (this.pinnedAreas.has(key)) return false;
+    // Wait for falling blocks to settle so they are saved in place
+    if (this.world.hasDynamicBlocksInArea(cx, cz)) return false;
+
+    const blocks = this.world.getAreaBlocks(cx, cz);
+    // Crops belong to the crop system, so their areas stay loaded
+    if (blocks.some((block) => !block.blockType)) return false;
+
+    blocks.forEach((block) => {
+      if (!this.placedBlocks.delete(block)) return;
+      const saved = this.toSavedBlock(block);
+      if (saved) this.parkBlock(key, saved);
+    });
+
+    this.world.unloadArea(cx, cz);
+    this.water.removeArea(key);
+    return true;
+  }
+
+  private parkBlock(key: string, saved: SavedBlock): void {
+    const parked = this.parkedBlocks.get(key);
+    if (parked) {
+      parked.push(saved);
+    } else {
+      this.parkedBlocks.set(key, [saved]);
+    }
+  }
+
+  private toSavedBlock(block: Block): SavedBlock | null {
+    if (!block.blockType) return null;
+    const pos = block.position;
+    return {
+      x: Math.round(pos.x * 2) / 2,
+      y: Math.round(pos.y * 2) / 2,
+      z: Math.round(pos.z * 2) / 2,
+      type: block.blockType,
+      isStatic: block.isStatic(),
+    };
+  }
+
+  private getAreaAt(position: THREE.Vector3): Area {
+    return { cx: chunkCoord(worldToGrid(position.x)), cz: chunkCoord(worldToGrid(position.z)) };
+  }
+
+  // Areas within radius of the player's area, nearest first
+  private getAreasInRange(position: THREE.Vector3, radius: number): Area[] {
+    const center = this.getAreaAt(position);
+    const areas: Area[] = [];
+    for (let dx = -radius; dx <= radius; dx++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        if (Math.hypot(dx, dz) > radius) continue;
+        areas.push({ cx: center.cx + dx, cz: center.cz + dz });
+      }
+    }
+    return areas.sort(
+      (a, b) => Math.hypot(a.cx - center.cx, a.cz - center.cz) - Math.hypot(b.cx - center.cx, b.cz - center.cz)
+    );
+  }
+}
@@ -1,11 +1,11 @@
 import './style.css';
 import * as THREE from 'three';
 import { initPhysics, getPhysicsWorld, getEventQueue } from './physics';
-import { Block } from './Block';
+import type { Block } from './Block';
 import { Ground } from './Ground';
 import { Controls } from './Controls';
-import { BlockType, BlockColors } from './types';
-import { generateTerrain, generateFarmWorld } from './Terrain';
+import { BlockColors, BlockType } from './types';
+import { generateFarmWorld } from './Terrain';
 import { soundManager } from './Sound';
 import { InstructionsOverlay } from './UI';
 import { Creature } from './Creature';
@@ -13,7 +13,11 @@ import type { CreatureType } from './Creature';
 import { Cinematic } from './Cinematic';
 import { TimeManager } from './TimeManager';
 import { CropSystem } from './CropSystem';
-import type { CropType } from './CropSystem';
+import type { HarvestResult, SavedCrop } from './CropSystem';
+import { SoilSystem } from './SoilSystem';
+import type { SavedSoilTile } from './SoilSystem';
+import { WeatherSystem, WEATHER_TYPES } from './WeatherSystem';
+import type { WeatherData } from './WeatherSystem';
 import { Neighbor } from './Neighbor';
 import type { NeighborData } from './Neighbor';
 import { EventSystem } from './EventSystem';
@@ -21,6 +25,32 @@ import type { ActiveEvent } from './EventSystem';
 import { ParticleSystem } from './ParticleSystem';
 import { AchievementSystem } from './AchievementSystem';
 import { CookingSystem } from './CookingSystem';
+import { IMPORT_CANCELLED, SaveSystem, SAVE_VERSION } from './SaveSystem';
+import type { SaveData } from './SaveSystem';
+import { VoxelWorld } from './VoxelWorld';
+import { getBlockMaterial, getColliderMaterial } from './BlockMaterials';
+import { Water } from './Water';
+import { WorldStreamer } from './WorldStreamer';
+import { BlueprintTool } from './BlueprintTool';
+import { UndoHistory } from './UndoHistory';
+import { GAME_MODES } from './GameMode';
+import type { GameMode } from './GameMode';
+import { Inventory } from './Inventory';
+import { InventoryUI } from './InventoryUI';
+import { InputManager, MENU_OPTION_COUNT } from './Input';
+import type { Action, MenuOptionAction } from './Input';
+import { KeyBindingsUI } from './KeyBindingsUI';
+import { TouchControls, isTouchDevice } from './TouchControls';
+import { CAMERA_MODES, CameraRig } from './CameraRig';
+import type { CameraMode } from './CameraRig';
+import { PlayerAvatar } from './PlayerAvatar';
+import { ItemDrops } from './ItemDrops';
+import { ITEMS, getItemsInCategory, getSeedItem } from './Items';
+import type { ItemId, ToolUse } from './Items';
+import { randomSeed } from './Noise';
+import { TERRAIN_FLOOR_Y } from './TerrainGenerator';
+import { VOXEL_SIZE, chunkCoord, gridPosFromWorld, gridToWorld, worldToGrid } from './VoxelGrid';
+import type { GridPos } from './VoxelGrid';
 
 // Scene setup
 const scene = new THREE.Scene();
@@ -59,43 +89,175 @@ scene.add(directionalLight);
 window.addEventListener('resize', () => {
   camera.aspect = window.innerWidth / window.innerHeight;
   camera.updateProjectionMatrix();
+  cameraRig.setAspect(camera.aspect);
   renderer.setSize(window.innerWidth, window.innerHeight);
 });
 
 // Game objects
-const blocks: Block[] = [];
+const world = new VoxelWorld(scene);
 const creatures: Creature[] = [];
 const neighbors: Neighbor[] = [];
+// The world is drawn from the player's eyes, over their shoulder or from above the farm
+const cameraRig = new CameraRig(camera, (origin, direction, maxDistance) =>
+  world.raycast(origin, direction, maxDistance)?.distance ?? null
+);
+const playerAvatar = new PlayerAvatar(scene);
 let controls: Controls;
 let lastTime = performance.now();
 const raycaster = new THREE.Raycaster();
 let highlightedBlock: Block | null = null;
 let intersectionNormal: THREE.Vector3 | null = null;
-let selectedBlockType: BlockType = BlockType.GRASS;
 let instructionsOverlay: InstructionsOverlay;
 let cinematic: Cinematic;
 let cinematicPlaying = false;
 let timeManager: TimeManager;
 let cropSystem: CropSystem;
+let soilSystem: SoilSystem;
+let weatherSystem: WeatherSystem;
 let eventSystem: EventSystem;
 let particleSystem: ParticleSystem;
 let achievementSystem: AchievementSystem;
 let cookingSystem: CookingSystem;
-let selectedCropType: CropType = 'WHEAT';
-let isPlantingMode = false;
+let saveSystem: SaveSystem;
+let ground: Ground;
+let worldStreamer: WorldStreamer;
+let blueprintTool: BlueprintTool;
+const history = new UndoHistory();
+let gameMode: GameMode = 'creative';
+let inventory: Inventory;
+let inventoryUI: InventoryUI;
+let input: InputManager;
+// The menu whose options the number keys pick, if one is open
+let openMenu: 'cooking' | 'market' | null = null;
+const SEED_PACKET = 5; // Seeds bought at a time at the market
+
+// Survival mining: hold the left button on a block for its hardness in seconds (see BlockMaterials)
+const MINING_HIT_INTERVAL = 0.25; // Seconds between hit sounds
+let breakingBlock: Block | null = null;
+let breakProgress = 0;
+let nextHitAt = 0;
+let itemDrops: ItemDrops;
+let touchControls: TouchControls | null = null;
+
+// Thunderstorms
+const SCARE_RADIUS = 16; // Animals this close to a lightning strike run from it
+const STORM_DAMAGE_RADIUS = 8; // Cells around a strike searched for an overhang to knock loose
+const STORM_DAMAGE_TRIES = 20;
+const STORM_PUSH_SPEED = 2;
+const FORECAST_DAYS = 3;
+
+function spawnBlock(x: number, y: number, z: number, type: BlockType, isStatic: boolean = false): Block {
+  const block = world.addBlock(x, y, z, type, isStatic);
+  worldStreamer.trackPlaced(block);
+  return block;
+}
 
-// Resource inventory from animals
-const animalResources: Record<'EGG' | 'MILK' | 'WOOL', number> = {
-  EGG: 0,
-  MILK: 0,
-  WOOL: 0,
-};
+// A block that left its cell during an edit, and where it was
+interface DisplacedBlock {
+  block: Block;
+  type: BlockType;
+  x: number;
+  y: number;
+  z: number;
+  isStatic: boolean;
+}
 
+// Blocks an edit created, and blocks it broke or knocked loose along with the tilled soil and
+// crops that went with them
+interface BlockEdit {
+  added: Block[];
+  removed: DisplacedBlock[];
+  tiles: SavedSoilTile[];
+  crops: SavedCrop[];
+}
 
-function spawnBlock(x: number, y: number, z: number, color: number): Block {
-  const block = new Block(scene, x, y, z, color);
-  blocks.push(block);
-  return block;
+// The latest edit also owns whatever falls or pours in its wake
+let openEdit: BlockEdit | null = null;
+
+function describeBlock(block: Block): DisplacedBlock {
+  const pos = block.position;
+  return {
+    block,
+    type: block.blockType!,
+    x: Math.round(pos.x * 2) / 2,
+    y: Math.round(pos.y * 2) / 2,
+    z: Math.round(pos.z * 2) / 2,
+    isStatic: block.isStatic(),
+  };
+}
+
+// Start a block edit in the undo history; the caller fills it in
+function recordBlockEdit(label: string): BlockEdit {
+  let edit: BlockEdit = { added: [], removed: [], tiles: [], crops: [] };
+  openEdit = edit;
+  // Undoing an edit applies its reverse, and redoing reverses that again
+  const revert = () => {
+    edit = revertBlockEdit(edit);
+  };
+  history.record({
+    label,
+    get size() {
+      return edit.added.length + edit.removed.length;
+    },
+    undo: revert,
+    redo: revert,
+  });
+  return edit;
+}
+
+// Take out what an edit added and put back what it removed; returns the reverse edit.
+// Blocks that are gone by now (unloaded, broken since) and cells taken since are skipped.
+function revertBlockEdit(edit: BlockEdit): BlockEdit {
+  const reverse: BlockEdit = { added: [], removed: [], tiles: [], crops: [] };
+  openEdit = reverse;
+
+  const emptied: GridPos[] = [];
+  const takeOut = (block: Block) => {
+    if (!world.hasBlock(block)) return;
+    reverse.removed.push(describeBlock(block));
+    if (block.isStatic()) emptied.push(world.getGridPos(block));
+    worldStreamer.trackRemoved(block);
+    world.removeBlock(block);
+  };
+  edit.added.forEach(takeOut);
+  edit.removed.forEach(({ block }) => takeOut(block));
+
+  edit.removed.forEach(({ type, x, y, z, isStatic }) => {
+    if (!world.isAreaLoaded(chunkCoord(worldToGrid(x)), chunkCoord(worldToGrid(z)))) return;
+    if (world.isOccupied(x, y, z)) return;
+    reverse.added.push(spawnBlock(x, y, z, type, isStatic));
+  });
+  // Soil first, so the crops have somewhere to stand
+  edit.tiles.forEach((tile) => soilSystem.restoreTile(tile));
+  edit.crops.forEach((crop) => cropSystem.replantCrop(crop));
+
+  world.collapseCells(emptied);
+  return reverse;
+}
+
+function setGameMode(mode: GameMode): void {
+  gameMode = mode;
+  controls.setFlyingAllowed(GAME_MODES[mode].flying);
+  if (!GAME_MODES[mode].buildingTools && blueprintTool.isActive()) {
+    blueprintTool.toggle();
+    updateInputContext();
+  }
+  inventoryUI.setCreative(GAME_MODES[mode].unlimitedBlocks);
+  updateUI();
+}
+
+function undoLastAction(): void {
+  const command = history.undo();
+  showMessage(command ? `↩️ Undid ${command.label}` : 'Nothing to undo', 1500);
+  highlightedBlock = null;
+  updateUI();
+}
+
+function redoLastAction(): void {
+  const command = history.redo();
+  showMessage(command ? `↪️ Redid ${command.label}` : 'Nothing to redo', 1500);
+  highlightedBlock = null;
+  updateUI();
 }
 
 function spawnCreature(x: number, y: number, z: number, type: CreatureType): Creature {
@@ -118,6 +280,10 @@ function animate() {
   const deltaTime = (currentTime - lastTime) / 1000; // Convert to seconds
   lastTime = currentTime;
 
+  // Gamepads are polled
+  input.update();
+  touchControls?.update();
+
   // Update cinematic if playing
   if (cinematicPlaying) {
     cinematic.update(deltaTime);
@@ -134,25 +300,36 @@ function animate() {
   // Update time system
   if (!cinematicPlaying) {
     timeManager.update(deltaTime);
+    weatherSystem.update(deltaTime, camera.position, cameraRig.getCamera().position.distanceTo(camera.position));
     updateTimeUI();
   }
 
-  // Step physics simulation
-  const world = getPhysicsWorld();
+  // Step physics simulation against up-to-date chunk colliders
+  world.updatePhysics();
+  const physicsWorld = getPhysicsWorld();
   const eventQueue = getEventQueue();
-  world.step(eventQueue);
+  physicsWorld.step(eventQueue);
 
   // Handle collision events
-  eventQueue.drainCollisionEvents((_handle1, _handle2, started) => {
+  eventQueue.drainCollisionEvents((handle1, handle2, started) => {
     // Play collision sound when contact starts
     if (started) {
-      // Use a simple intensity - can be enhanced with velocity info
-      soundManager.playCollisionSound(0.5);
+      // Sound like whichever block was involved
+      const material = getColliderMaterial(handle1) ?? getColliderMaterial(handle2);
+      if (material) {
+        soundManager.playBlockSound(material.sound, 'impact', 0.5);
+      } else {
+        soundManager.playCollisionSound(0.5);
+      }
     }
   });
 
+  // Stream terrain in and out around the player
+  worldStreamer.update(camera.position);
+  ground.follow(camera.position);
+
   // Update all blocks
-  blocks.forEach((block) => block.update());
+  world.update();
 
   // Update all creatures
   creatures.forEach((creature) => creature.update(deltaTime));
@@ -163,86 +340,334 @@ function animate() {
   // Update particle system
   particleSystem.update(deltaTime);
 
-  // Raycast from camera center to detect block under crosshair
-  raycaster.setFromCamera(new THREE.Vector2(0, 0), camera);
-  const intersects = raycaster.intersectObjects(
-    blocks.map((b) => b.mesh),
-    false
-  );
+  // Dropped items go into the inventory when the player walks over them
+  itemDrops.update(deltaTime, getBodyCenter(), (item, count) => {
+    const left = inventory.add(item, count);
+    if (left < count) {
+      soundManager.playPlaceSound();
+    }
+    return left;
+  });
 
-  // Update highlight
-  if (highlightedBlock) {
-    highlightedBlock.setHighlight(false);
-    highlightedBlock = null;
+  // The view follows the player; the intro flies the eye camera itself
+  cameraRig.update();
+  playerAvatar.update(camera);
+  playerAvatar.setVisible(!cinematicPlaying && CAMERA_MODES[cameraRig.getMode()].showAvatar);
+
+  // Raycast from the view to detect the block under the crosshair (or the pointer from above)
+  const aim = cameraRig.getAimRay();
+  const hit = world.raycast(aim.origin, aim.direction);
+
+  // Update highlight only when the target changes
+  const hitBlock = hit ? hit.block : null;
+  if (hitBlock !== highlightedBlock) {
+    highlightedBlock?.setHighlight(false);
+    hitBlock?.setHighlight(true);
+    highlightedBlock = hitBlock;
   }
+  intersectionNormal = hit ? hit.normal : null;
+  // Soil and crops go with a block that was broken or fell away, as part of the edit that did it
+  const lostTiles = soilSystem.update();
+  const pulledUp = cropSystem.update();
+  openEdit?.tiles.push(...lostTiles);
+  openEdit?.crops.push(...pulledUp);
+  if (!GAME_MODES[gameMode].unlimitedBlocks) {
+    pulledUp.forEach(dropPulledUpCrop);
+  }
+  updateTargetInfo();
 
-  intersectionNormal = null;
+  updateMining(deltaTime);
 
-  if (intersects.length > 0) {
-    const intersectedMesh = intersects[0].object;
-    const block = blocks.find((b) => b.mesh === intersectedMesh);
-    if (block) {
-      block.setHighlight(true);
-      highlightedBlock = block;
-      intersectionNormal = intersects[0].face?.normal || null;
-    }
+  if (blueprintTool.isActive()) {
+    blueprintTool.updatePreview(highlightedBlock ? world.getGridPos(highlightedBlock) : null, getPlacementCell());
   }
 
-  renderer.render(scene, camera);
+  renderer.render(scene, cinematicPlaying ? camera : cameraRig.getCamera());
 }
 
-// Check if a block has support below it
-function hasSupport(block: Block, allBlocks: Block[]): boolean {
-  const pos = block.mesh.position;
-  const checkY = Math.round(pos.y * 2) / 2 - 0.5; // Check block below (adjusted for 0.5 spacing)
+// Middle of the walking body, a little below the eyes
+function getBodyCenter(): THREE.Vector3 {
+  return camera.position.clone().setY(camera.position.y - 0.8);
+}
+
+// Into the backpack, or onto the ground at (x, y, z) for whatever doesn't fit
+function giveItems(item: ItemId, count: number, x: number, y: number, z: number): void {
+  const left = inventory.add(item, count);
+  if (left > 0) {
+    itemDrops.spawn(item, left, x, y, z);
+  }
+}
+
+// A harvest's pickings that didn't fit in the backpack fall where the crop stands
+function dropLeftovers(harvest: HarvestResult): void {
+  const { x, y, z } = harvest.position;
+  harvest.leftovers.forEach(({ item, count }) => itemDrops.spawn(item, count, x, y, z));
+}
+
+// A crop pulled up with its soil leaves its harvest if it was ripe, otherwise its seed
+function dropPulledUpCrop(crop: SavedCrop): void {
+  if (crop.dead) return;
+  const item = crop.growth >= 1 ? crop.type : getSeedItem(crop.type);
+  const { x, y, z } = crop.position;
+  itemDrops.spawn(item, 1, x, y, z);
+}
+
+// Survival: keep chipping at the targeted block while the left button is held
+function updateMining(deltaTime: number): void {
+  const mining = input.isActive('break') && !GAME_MODES[gameMode].instantBreak && !blueprintTool.isActive();
+  // Crops and other untyped blocks are harvested with a click instead
+  const target = mining && highlightedBlock?.blockType ? highlightedBlock : null;
+
+  if (target !== breakingBlock) {
+    breakingBlock?.setCrack(0);
+    breakingBlock = target;
+    breakProgress = 0;
+    nextHitAt = 0;
+  }
+  if (!breakingBlock) return;
+
+  breakProgress += deltaTime;
+  if (breakProgress >= breakingBlock.material.hardness) {
+    const block = breakingBlock;
+    breakingBlock = null;
+    breakBlock(block);
+    return;
+  }
+
+  breakingBlock.setCrack(breakProgress / breakingBlock.material.hardness);
+  if (breakProgress >= nextHitAt) {
+    soundManager.playBlockSound(breakingBlock.material.sound, 'hit');
+    nextHitAt += MINING_HIT_INTERVAL;
+  }
+}
+
+function breakBlock(block: Block): void {
+  const { x, y, z } = block.position;
+  recordBlockEdit(`breaking ${block.blockType}`).removed.push(describeBlock(block));
+  soundManager.playBlockSound(block.material.sound, 'break');
+  if (block.blockType) {
+    particleSystem.spawn('debris', x, y, z, BlockColors[block.blockType]);
+  }
+  worldStreamer.trackRemoved(block);
+  world.removeBlock(block);
+  if (block === highlightedBlock) {
+    highlightedBlock = null;
+  }
 
-  // Check if there's a block directly below
-  for (const other of allBlocks) {
-    if (other === block) continue;
+  // Survival players pick up what they break
+  if (!GAME_MODES[gameMode].unlimitedBlocks && block.blockType) {
+    itemDrops.spawn(block.blockType, 1, x, y, z);
+  }
 
-    const otherPos = other.mesh.position;
-    const otherX = Math.round(otherPos.x * 2) / 2;
-    const otherY = Math.round(otherPos.y * 2) / 2;
-    const otherZ = Math.round(otherPos.z * 2) / 2;
+  // Drop whatever the broken block was holding up
+  world.collapseUnsupported(x, y, z);
+}
 
-    const thisX = Math.round(pos.x * 2) / 2;
-    const thisZ = Math.round(pos.z * 2) / 2;
+// A bolt frightens nearby animals and can knock loose an overhang close to where it lands
+function onLightningStrike(strike: THREE.Vector3): void {
+  creatures.forEach((creature) => {
+    if (creature.mesh.position.distanceTo(strike) < SCARE_RADIUS) {
+      creature.scare(strike);
+    }
+  });
+  knockDownOverhang(strike);
+}
 
-    // Block directly below
-    if (otherX === thisX && otherY === checkY && otherZ === thisZ) {
-      return true;
+// Tries a few columns around the strike; the first one topped by an overhanging block loses it
+function knockDownOverhang(strike: THREE.Vector3): void {
+  const center = gridPosFromWorld(strike.x, strike.y, strike.z);
+  for (let i = 0; i < STORM_DAMAGE_TRIES; i++) {
+    const x = center.x + Math.round((Math.random() * 2 - 1) * STORM_DAMAGE_RADIUS);
+    const z = center.z + Math.round((Math.random() * 2 - 1) * STORM_DAMAGE_RADIUS);
+    for (let y = center.y + STORM_DAMAGE_RADIUS; y >= center.y - STORM_DAMAGE_RADIUS; y--) {
+      const block = world.getBlockAtGrid(x, y, z);
+      if (!block) continue;
+      // Only the top of the column catches the wind, and crops bend rather than fall
+      if (!block.blockType || !world.isOverhanging(block)) break;
+
+      // Weather damage isn't the player's doing, so it stays out of their last edit
+      openEdit = null;
+      const { x: blockX, y: blockY, z: blockZ } = block.position;
+      const push = new THREE.Vector3(blockX - strike.x, 0, blockZ - strike.z).normalize();
+      soundManager.playBlockSound(block.material.sound, 'break');
+      world.convertToDynamic(block);
+      block.rigidBody?.setLinvel({ x: push.x * STORM_PUSH_SPEED, y: 0, z: push.z * STORM_PUSH_SPEED }, true);
+      world.collapseUnsupported(blockX, blockY, blockZ);
+      return;
     }
   }
+}
 
-  // Check if block is at or below ground level (y <= -0.5)
-  if (Math.round(pos.y * 2) / 2 <= -0.5) {
-    return true;
+// The hoe tills dirt and grass, or digs up a crop; the watering can waters tilled soil, or the
+// soil under a crop
+function useTool(tool: ToolUse, block: Block): void {
+  const { x, y, z } = block.position;
+  const crop = cropSystem.getCropAt(x, y, z);
+  if (tool === 'till' && crop) {
+    const dugUp = cropSystem.digUpCrop(x, y, z);
+    if (!dugUp) return;
+    const { x: cropX, y: cropY, z: cropZ } = dugUp.position;
+    history.record({
+      label: `digging up ${dugUp.type}`,
+      size: 1,
+      undo: () => cropSystem.replantCrop(dugUp),
+      redo: () => cropSystem.digUpCrop(cropX, cropY, cropZ),
+    });
+    soundManager.playDestroySound();
+    particleSystem.spawn('debris', cropX, cropY, cropZ, BlockColors.DIRT);
+    showMessage(`⛏️ Dug up the ${ITEMS[dugUp.type].name.toLowerCase()}`, 1500);
+  } else if (tool === 'till') {
+    if (soilSystem.till(x, y, z)) {
+      history.record({
+        label: 'tilling',
+        size: 1,
+        undo: () => soilSystem.untill(x, y, z),
+        redo: () => soilSystem.till(x, y, z),
+      });
+      soundManager.playBlockSound(block.material.sound, 'hit');
+      particleSystem.spawn('debris', x, y + VOXEL_SIZE / 2, z, BlockColors.DIRT);
+    } else if (!soilSystem.getTile(x, y, z)) {
+      showMessage('⛏️ Only dirt or grass with nothing on top can be tilled', 1500);
+    }
+    return;
   }
 
-  return false;
+  const soilY = crop ? crop.position.y - VOXEL_SIZE : y;
+  if (soilSystem.water(x, soilY, z)) {
+    soundManager.playPlaceSound();
+    particleSystem.spawn('water', x, soilY + VOXEL_SIZE, z);
+  } else {
+    showMessage('💧 Water tilled soil or the crops growing in it', 1500);
+  }
 }
 
-// Convert unsupported static blocks to dynamic
-function convertUnsupportedBlocks(): void {
-  // Check all static blocks
-  const staticBlocks = blocks.filter((b) => b.isStatic());
+// Crop and soil state of whatever is targeted, shown above the hotbar
+function updateTargetInfo(): void {
+  const element = document.getElementById('target-info');
+  if (!element) return;
 
-  for (const block of staticBlocks) {
-    if (!hasSupport(block, blocks)) {
-      block.convertToDynamic();
+  const lines: string[] = [];
+  if (highlightedBlock) {
+    const { x, y, z } = highlightedBlock.position;
+    const crop = cropSystem.getCropAt(x, y, z);
+    if (crop) {
+      const season = eventSystem.getCurrentSeason(timeManager.getDayNumber());
+      const outOfSeason = !crop.dead && cropSystem.getSeasonRate(crop.type, season) === 0;
+      const seasonNote = cropSystem.isPerennial(crop.type) ? 'resting' : 'out of season';
+      const { icon, name } = ITEMS[crop.type];
+      lines.push(`${icon} ${name}: ${cropSystem.getCropStatus(crop)}${outOfSeason ? ` (${seasonNote} in ${season.toLowerCase()})` : ''}`);
+    }
+    const tile = soilSystem.getTile(x, crop ? crop.position.y - VOXEL_SIZE : y, z);
+    if (tile) {
+      lines.push(soilSystem.describeTile(tile));
     }
   }
+
+  const text = lines.join('\n');
+  if (element.textContent !== text) {
+    element.textContent = text;
+    element.style.display = text ? 'block' : 'none';
+  }
+}
+
+// Grid cell against the targeted face, where a new block would go
+function getPlacementCell(): GridPos | null {
+  if (!highlightedBlock || !intersectionNormal) return null;
+  const cell = world.getGridPos(highlightedBlock);
+  return {
+    x: cell.x + Math.round(intersectionNormal.x),
+    y: cell.y + Math.round(intersectionNormal.y),
+    z: cell.z + Math.round(intersectionNormal.z),
+  };
+}
+
+// Blueprint mode: break marks the corners of a capture, place pastes
+function onBlueprintUse(action: 'break' | 'place'): void {
+  if (action === 'break' && highlightedBlock) {
+    const cell = world.getGridPos(highlightedBlock);
+    if (!blueprintTool.hasCorner()) {
+      blueprintTool.setCorner(cell);
+      showMessage('📐 Corner set - now click the opposite corner', 1500);
+      return;
+    }
+
+    try {
+      const count = blueprintTool.captureTo(cell);
+      showMessage(count > 0 ? `📐 Captured ${count} blocks!` : '📐 Nothing to capture there', 2000);
+    } catch (error) {
+      showMessage(`❌ ${(error as Error).message}`, 2500);
+    }
+    updateUI();
+  } else if (action === 'place') {
+    pasteBlueprint();
+  }
+}
+
+function pasteBlueprint(): void {
+  const cell = getPlacementCell();
+  if (!cell) return;
+  if (!blueprintTool.getBlueprint()) {
+    showMessage('📐 Capture or load a blueprint first', 1500);
+    return;
+  }
+
+  // Pasted blocks fill empty cells only and go straight into the grid
+  const free: { type: BlockType; pos: GridPos }[] = [];
+  blueprintTool.forEachPasteCell(cell, (type, pos) => {
+    if (world.isOccupied(gridToWorld(pos.x), gridToWorld(pos.y), gridToWorld(pos.z))) return;
+    free.push({ type, pos });
+  });
+
+  if (free.length === 0) {
+    showMessage('❌ No room to paste here!', 1500);
+    return;
+  }
+  const edit = recordBlockEdit(`paste of ${free.length} blocks`);
+  free.forEach(({ type, pos }) => {
+    edit.added.push(spawnBlock(gridToWorld(pos.x), gridToWorld(pos.y), gridToWorld(pos.z), type, true));
+  });
+  soundManager.playPlaceSound();
+  showMessage(`📐 Pasted ${free.length} blocks!`, 1500);
+
+  // Parts left hanging in the air fall
+  world.collapseCells(free.map(({ pos }) => pos));
+}
+
+function saveBlueprint(): void {
+  const blueprint = blueprintTool.getBlueprint();
+  if (!blueprint) return;
+  const name = window.prompt('Name this blueprint:', blueprint.name)?.trim();
+  if (!name) return;
+  blueprintTool.saveBlueprint(name);
+  showMessage(`💾 Saved blueprint "${name}"`, 1500);
+  updateUI();
+}
+
+function importBlueprint(): void {
+  blueprintTool
+    .importFromFile()
+    .then((template) => {
+      showMessage(`📐 Loaded blueprint "${template.name}"`, 1500);
+      updateUI();
+    })
+    .catch((error: Error) => {
+      if (error.message === IMPORT_CANCELLED) return;
+      console.error('Blueprint import failed:', error);
+      window.alert(`Could not import blueprint: ${error.message}`);
+    });
 }
 
-// Mouse click handler
-function onMouseClick(event: MouseEvent): void {
-  // Check for creature clicks first (both left and right click)
-  if (event.button === 0) {
-    const mouse = new THREE.Vector2();
-    mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
-    mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
+// Break and place (left and right click by default) act on whatever is under the crosshair
+function onUse(action: 'break' | 'place'): void {
+  if (blueprintTool.isActive()) {
+    onBlueprintUse(action);
+    return;
+  }
 
-    raycaster.setFromCamera(mouse, camera);
+  // Check for creature clicks first
+  if (action === 'break') {
+    const aim = cameraRig.getAimRay();
+    raycaster.set(aim.origin, aim.direction);
 
     // Check for creature intersections
     const creatureMeshes = creatures.map(c => c.mesh);
@@ -255,12 +680,17 @@ function onMouseClick(event: MouseEvent): void {
         if (creature.mesh === clickedMesh || creature.mesh.children.includes(clickedMesh as THREE.Object3D)) {
           // Try to collect resource from this creature
           if (creature.hasResourceReady()) {
+            const readyType = creature.getResourceType();
+            if (readyType && inventory.getSpaceFor(readyType) < 1) {
+              showMessage('🎒 Backpack full!', 2000);
+              return;
+            }
             const resourceType = creature.collectResource();
             if (resourceType && resourceType !== null) {
-              animalResources[resourceType]++;
+              const pos = creature.mesh.position;
+              giveItems(resourceType, 1, pos.x, pos.y, pos.z);
               soundManager.playPlaceSound(); // Use place sound for collection
               showMessage(`🎉 Collected ${resourceType}!`, 2000);
-              const pos = creature.mesh.position;
               particleSystem.spawn('collect', pos.x, pos.y + 0.5, pos.z);
 
               // Track achievement
@@ -293,20 +723,9 @@ function onMouseClick(event: MouseEvent): void {
           // Neighbor has a quest - try to complete it
           let canComplete = false;
 
-          if (quest.type === 'crop') {
-            const harvested = cropSystem.getHarvestedCrops();
-            const cropType = quest.itemType as CropType;
-            if (harvested[cropType] >= quest.amount) {
-              // Player has enough crops!
-              canComplete = true;
-              cropSystem.deductHarvestedCrops(cropType, quest.amount);
-            }
-          } else if (quest.type === 'resource') {
-            const resourceType = quest.itemType as 'EGG' | 'MILK' | 'WOOL';
-            if (animalResources[resourceType] >= quest.amount) {
-              canComplete = true;
-              animalResources[resourceType] -= quest.amount;
-            }
+          // Crop and resource quests both ask for items from the inventory
+          if (inventory.remove(quest.itemType as ItemId, quest.amount)) {
+            canComplete = true;
           }
 
           if (canComplete) {
@@ -318,8 +737,10 @@ function onMouseClick(event: MouseEvent): void {
 
               // Give rewards
               if (result.reward.type === 'seeds' && result.reward.cropType && result.reward.amount) {
-                cropSystem.addSeeds(result.reward.cropType, result.reward.amount);
-                showMessage(`🎁 Received ${result.reward.amount} ${result.reward.cropType} seeds!`, 2500);
+                const seedItem = getSeedItem(result.reward.cropType);
+                const { x, y, z } = neighbor.getPosition();
+                giveItems(seedItem, result.reward.amount, x, y, z);
+                showMessage(`🎁 Received ${result.reward.amount} ${ITEMS[seedItem].name}!`, 2500);
               }
 
               // Spawn heart particles at neighbor location
@@ -350,187 +771,310 @@ function onMouseClick(event: MouseEvent): void {
     }
   }
 
-  if (event.button === 0 && highlightedBlock) {
+  if (action === 'break' && highlightedBlock) {
     // Left click - destroy block OR harvest crop
 
     // Check if clicking on a crop
-    const blockPos = highlightedBlock.mesh.position;
-    const cropType = cropSystem.harvestCrop(blockPos.x, blockPos.y, blockPos.z);
+    const blockPos = highlightedBlock.position;
+    const { x, y, z } = blockPos;
+    const plantedDay = cropSystem.getCropAt(x, y, z)?.plantedDay ?? 0;
+    const harvest = cropSystem.harvestCrop(x, y, z);
+
+    if (harvest) {
+      // Undo and redo swap the same pickings back and forth; the leftovers stay on the ground.
+      // A step that can't be done leaves the other one with nothing to do.
+      let picked = true;
+      dropLeftovers(harvest);
+      history.record({
+        label: `${harvest.type} harvest`,
+        size: 1,
+        undo: () => {
+          if (picked && cropSystem.unharvestCrop(harvest, plantedDay)) picked = false;
+        },
+        redo: () => {
+          if (!picked && cropSystem.reharvestCrop(harvest)) picked = true;
+        },
+      });
 
-    if (cropType) {
       // Harvested a crop!
+      const { icon, name } = ITEMS[harvest.type];
       soundManager.playDestroySound();
-      showMessage(`🌾 Harvested ${cropType}!`, 2000);
+      const full = harvest.leftovers.length > 0 ? ' 🎒 Backpack full - the rest is on the ground' : '';
+      showMessage(`${icon} Harvested ${harvest.amount} ${name}!${full}`, 2000);
       particleSystem.spawn('harvest', blockPos.x, blockPos.y + 0.5, blockPos.z);
 
       // Track achievement
       achievementSystem.onCropHarvested();
-      const harvested = cropSystem.getHarvestedCrops();
-      achievementSystem.onCropVarietyCheck(harvested.WHEAT, harvested.CARROT, harvested.TOMATO);
+      achievementSystem.onCropVarietyCheck(getItemsInCategory('crop').map((item) => inventory.getCount(item)));
 
       return;
     }
 
-    // Regular block destruction
-    const index = blocks.indexOf(highlightedBlock);
-    if (index > -1) {
+    // Dead crops are pulled out, leaving the soil ready for new seeds
+    const deadCrop = cropSystem.getCropAt(x, y, z);
+    if (deadCrop?.dead && cropSystem.clearDeadCrop(x, y, z)) {
+      const { type, plantedDay: deadPlantedDay, position: cropPos } = deadCrop;
+      history.record({
+        label: `clearing dead ${type}`,
+        size: 1,
+        undo: () => cropSystem.restoreDeadCrop(cropPos.x, cropPos.y, cropPos.z, type, deadPlantedDay),
+        redo: () => cropSystem.clearDeadCrop(cropPos.x, cropPos.y, cropPos.z),
+      });
       soundManager.playDestroySound();
-      highlightedBlock.destroy();
-      blocks.splice(index, 1);
-      highlightedBlock = null;
+      particleSystem.spawn('debris', x, y, z);
+      return;
+    }
 
-      // Check for unsupported blocks after destruction
-      convertUnsupportedBlocks();
+    // Growing crops can't be broken like regular blocks, only dug up with a hoe
+    const growingCrop = cropSystem.getCropAt(blockPos.x, blockPos.y, blockPos.z);
+    if (growingCrop) {
+      showMessage(`${cropSystem.getCropStatus(growingCrop)} - not ready yet! (a hoe digs it up)`, 1500);
+      return;
+    }
+
+    // Survival mining happens while the button is held (see updateMining)
+    if (GAME_MODES[gameMode].instantBreak) {
+      breakBlock(highlightedBlock);
+    }
+  } else if (action === 'place' && highlightedBlock && intersectionNormal) {
+    // Right click - place block OR plant crop (or use the tool in hand on the block)
+    const selected = inventory.getSelectedStack();
+    const tool = selected ? ITEMS[selected.item].tool : undefined;
+    if (tool) {
+      useTool(tool, highlightedBlock);
+      return;
     }
-  } else if (event.button === 2 && highlightedBlock && intersectionNormal) {
-    // Right click - place block OR plant crop
-    event.preventDefault();
 
     // Get the block position and add the normal to get adjacent position
-    const blockPos = highlightedBlock.mesh.position;
+    const blockPos = highlightedBlock.position;
 
-    // Transform normal from local to world space
-    const worldNormal = intersectionNormal
-      .clone()
-      .transformDirection(highlightedBlock.mesh.matrixWorld);
+    const worldNormal = intersectionNormal;
 
     // Calculate new block position (adjacent to clicked face, adjusted for 0.5 grid)
     const newX = Math.round((blockPos.x + worldNormal.x * 0.5) * 2) / 2;
     const newY = Math.round((blockPos.y + worldNormal.y * 0.5) * 2) / 2;
     const newZ = Math.round((blockPos.z + worldNormal.z * 0.5) * 2) / 2;
 
-    // Don't place block at camera position (simplified check)
-    const cameraPos = camera.position;
-    const distance = Math.sqrt(
-      Math.pow(newX - cameraPos.x, 2) +
-        Math.pow(newY - cameraPos.y, 2) +
-        Math.pow(newZ - cameraPos.z, 2)
-    );
-
-    if (distance > 0.5) {
-      // Planting mode - plant crops
-      if (isPlantingMode) {
-        const planted = cropSystem.plantSeed(newX, newY, newZ, selectedCropType, timeManager.getDayNumber());
+    if (!world.isOccupied(newX, newY, newZ)) {
+      // Use whatever is in the selected hotbar slot
+      const stack = inventory.getSelectedStack();
+      const cropType = stack ? ITEMS[stack.item].plants : undefined;
+      if (cropType) {
+        const day = timeManager.getDayNumber();
+        const planted = cropSystem.plantSeed(newX, newY, newZ, cropType, day);
         if (planted) {
+          history.record({
+            label: `${cropType} planting`,
+            size: 1,
+            undo: () => cropSystem.unplantSeed(newX, newY, newZ),
+            redo: () => cropSystem.plantSeed(newX, newY, newZ, cropType, day),
+          });
           soundManager.playPlaceSound();
-          showMessage(`🌱 Planted ${selectedCropType} seed!`, 1500);
-          updateUI();
+          const season = eventSystem.getCurrentSeason(day);
+          if (cropSystem.getSeasonRate(cropType, season) === 0) {
+            const fate = cropSystem.isPerennial(cropType) ? 'rest until its season' : 'wither';
+            showMessage(`⚠️ ${ITEMS[cropType].name} won't grow in ${season.toLowerCase()} - it will ${fate}`, 2500);
+          } else {
+            showMessage(`🌱 Planted ${ITEMS[getSeedItem(cropType)].name}!`, 1500);
+          }
+        } else if (!soilSystem.getTile(newX, newY - VOXEL_SIZE, newZ)) {
+          showMessage('🟫 Seeds need tilled soil - use a hoe on dirt or grass first', 2000);
         } else {
-          showMessage(`❌ Can't plant here or out of seeds!`, 1500);
+          showMessage(`❌ Can't plant here!`, 1500);
         }
-      } else {
-        // Regular block placement
-        soundManager.playPlaceSound();
-        spawnBlock(newX, newY, newZ, BlockColors[selectedBlockType]);
+      } else if (stack && ITEMS[stack.item].category === 'block') {
+        // Regular block placement, but never inside the player
+        if (controls.overlapsBody(newX, newY, newZ)) return;
+        const blockType = stack.item as BlockType;
+        if (!GAME_MODES[gameMode].unlimitedBlocks) {
+          inventory.remove(blockType, 1);
+        }
+        soundManager.playBlockSound(getBlockMaterial(blockType).sound, 'place');
+        const edit = recordBlockEdit(`placing ${blockType}`);
+        edit.added.push(spawnBlock(newX, newY, newZ, blockType));
+        // Building on tilled soil turns it back into plain ground
+        const covered = soilSystem.untill(newX, newY - VOXEL_SIZE, newZ);
+        if (covered) edit.tiles.push(covered);
+      } else if (!stack) {
+        showMessage('Select blocks or seeds in the hotbar (1-9)', 1500);
       }
     }
   }
 }
 
-// Keyboard handler for block type selection and crop planting
-function onKeyDown(event: KeyboardEvent): void {
-  // Toggle planting mode with P
-  if (event.code === 'KeyP') {
-    isPlantingMode = !isPlantingMode;
-    updateUI();
+// Everything bound in the input settings arrives here (see Input.ts for the default bindings)
+function onAction(action: Action): void {
+  // Jump or pause skips the intro; nothing else happens during it
+  if (cinematicPlaying) {
+    if (action === 'pause' || action === 'jump') {
+      cinematic.skip();
+      cinematicPlaying = false;
+      controls.lock();
+    }
     return;
   }
 
-  // Crop selection in planting mode (Q/W/E)
-  if (isPlantingMode) {
-    switch (event.code) {
-      case 'KeyQ':
-        selectedCropType = 'WHEAT';
-        updateUI();
-        return;
-      case 'KeyW':
-        selectedCropType = 'CARROT';
-        updateUI();
-        return;
-      case 'KeyE':
-        selectedCropType = 'TOMATO';
-        updateUI();
-        return;
-    }
+  if (action.startsWith('hotbar_') && action !== 'hotbar_next' && action !== 'hotbar_previous') {
+    inventory.select(Number(action.slice('hotbar_'.length)) - 1);
+    return;
+  }
+  if (action.startsWith('menu_option_')) {
+    chooseMenuOption(Number(action.slice('menu_option_'.length)) - 1);
+    return;
   }
 
-  // Regular block selection
-  switch (event.code) {
-    case 'Digit1':
-      selectedBlockType = BlockType.GRASS;
-      updateUI();
+  switch (action) {
+    case 'break':
+    case 'place':
+      onUse(action);
       break;
-    case 'Digit2':
-      selectedBlockType = BlockType.DIRT;
-      updateUI();
+    case 'hotbar_next':
+      inventory.select(inventory.getSelectedSlot() + 1);
       break;
-    case 'Digit3':
-      selectedBlockType = BlockType.STONE;
-      updateUI();
+    case 'hotbar_previous':
+      inventory.select(inventory.getSelectedSlot() - 1);
       break;
-    case 'Digit4':
-      selectedBlockType = BlockType.COBBLESTONE;
-      updateUI();
+    case 'undo':
+    case 'redo':
+      if (!GAME_MODES[gameMode].buildingTools) {
+        showMessage('Undo is only available in creative mode', 1500);
+      } else if (action === 'undo') {
+        undoLastAction();
+      } else {
+        redoLastAction();
+      }
       break;
-    case 'Digit5':
-      selectedBlockType = BlockType.BRICK;
+    case 'toggle_blueprint':
+      if (!GAME_MODES[gameMode].buildingTools) {
+        showMessage('Blueprints are only available in creative mode', 1500);
+        return;
+      }
+      blueprintTool.toggle();
+      updateInputContext();
       updateUI();
       break;
-    case 'Digit6':
-      selectedBlockType = BlockType.PLANKS;
+    case 'blueprint_rotate':
+      blueprintTool.rotate();
       updateUI();
       break;
-    case 'Digit7':
-      selectedBlockType = BlockType.WOOD;
+    case 'blueprint_mirror':
+      blueprintTool.toggleMirror();
       updateUI();
       break;
-    case 'Digit8':
-      selectedBlockType = BlockType.GLASS;
-      updateUI();
+    case 'blueprint_save':
+      saveBlueprint();
       break;
-    case 'Digit9':
-      selectedBlockType = BlockType.SAND;
-      updateUI();
+    case 'blueprint_load':
+      if (blueprintTool.selectNextSaved()) {
+        updateUI();
+      } else {
+        showMessage(`No saved blueprints yet - press ${input.getKeyLabel('blueprint_save')} to save one`, 1500);
+      }
+      break;
+    case 'blueprint_export':
+      blueprintTool.exportToFile();
+      break;
+    case 'blueprint_import':
+      importBlueprint();
+      break;
+    case 'open_backpack':
+      toggleBackpack();
+      break;
+    case 'cycle_camera':
+      setCameraMode(cameraRig.getNextMode());
+      break;
+    case 'weather_forecast':
+      showForecast();
       break;
-    case 'KeyB': // Sleep in bed
+    case 'sleep':
       tryToSleep();
       break;
-    case 'KeyM': // Open Market/Festival
+    case 'open_market':
       openEventMenu();
       break;
-    case 'KeyA': // View Achievements
+    case 'open_achievements':
       showAchievements();
       break;
-    case 'KeyC': // Open Cooking
+    case 'open_cooking':
       openCookingMenu();
       break;
-    case 'Escape':
-      instructionsOverlay.show();
+    case 'menu_close':
+      closeMenu();
+      break;
+    case 'pause':
+      if (inventoryUI.isOpen()) {
+        toggleBackpack();
+      } else {
+        controls.unlock();
+        instructionsOverlay.show();
+      }
       break;
   }
 }
 
+// Blueprint keys only work with the tool out; menu keys take over while a menu waits
+function updateInputContext(): void {
+  if (openMenu) {
+    input.setContext('menu');
+  } else {
+    input.setContext(blueprintTool.isActive() ? 'blueprint' : 'gameplay');
+  }
+}
+
+// The overview frees the mouse pointer to click on the farm; the crosshair goes with pointer lock
+function setCameraMode(mode: CameraMode): void {
+  const settings = CAMERA_MODES[mode];
+  cameraRig.setMode(mode);
+  controls.setFreePointer(settings.freePointer);
+  input.setFreePointer(settings.freePointer);
+  const crosshair = document.getElementById('crosshair');
+  if (crosshair) {
+    crosshair.style.display = settings.freePointer ? 'none' : '';
+  }
+  renderer.domElement.style.cursor = settings.freePointer ? 'crosshair' : '';
+  showMessage(settings.name, 1500);
+}
+
+// The backpack needs the mouse pointer to drag items around
+function toggleBackpack(): void {
+  if (inventoryUI.toggle()) {
+    controls.unlock();
+  } else {
+    controls.lock();
+  }
+}
+
 function updateUI(): void {
   const uiElement = document.getElementById('block-type-ui');
   if (uiElement) {
-    if (isPlantingMode) {
-      const inventory = cropSystem.getInventory();
+    if (blueprintTool.isActive()) {
+      const blueprint = blueprintTool.getBlueprint();
+      const transform = `${blueprintTool.getRotation()}°${blueprintTool.isMirrored() ? ', mirrored' : ''}`;
       uiElement.innerHTML = `
-        <div style="color: #90EE90; font-weight: bold;">🌱 PLANTING MODE</div>
+        <div style="color: #FFD700; font-weight: bold;">📐 BLUEPRINT MODE</div>
+        <div style="font-size: 12px; margin-top: 5px;">Left click two corners to capture | Right click to paste</div>
         <div style="font-size: 12px; margin-top: 5px;">
-          Q: Wheat (${inventory.WHEAT}) | W: Carrot (${inventory.CARROT}) | E: Tomato (${inventory.TOMATO})
+          ${input.getKeyLabel('blueprint_rotate')}: Rotate | ${input.getKeyLabel('blueprint_mirror')}: Mirror |
+          ${input.getKeyLabel('blueprint_save')}: Save | ${input.getKeyLabel('blueprint_load')}: Saved (${blueprintTool.getLibrarySize()}) |
+          ${input.getKeyLabel('blueprint_export')}: Export | ${input.getKeyLabel('blueprint_import')}: Import
         </div>
-        <div style="margin-top: 5px;">Selected: ${selectedCropType}</div>
-        <div style="font-size: 11px; opacity: 0.8; margin-top: 5px;">Press P to exit</div>
+        <div style="margin-top: 5px;">${blueprint ? `Blueprint: ${blueprint.name} (${transform})` : 'No blueprint yet'}</div>
+        <div style="font-size: 11px; opacity: 0.8; margin-top: 5px;">Press ${input.getKeyLabel('toggle_blueprint')} to exit</div>
       `;
     } else {
       const achievementProgress = `${achievementSystem.getUnlockedCount()}/${achievementSystem.getTotalCount()}`;
-      const totalMeals = cookingSystem.getTotalMeals();
+      const totalMeals = inventory.getCategoryCount('meal');
+      const stack = inventory.getSelectedStack();
+      let selected = 'Empty hand';
+      if (stack) {
+        const unlimited = GAME_MODES[gameMode].unlimitedBlocks && ITEMS[stack.item].category === 'block';
+        selected = `${ITEMS[stack.item].name} (${unlimited ? '∞' : inventory.getCount(stack.item)})`;
+      }
       uiElement.innerHTML = `
-        <div>Block: ${selectedBlockType} | Press P for Farming</div>
+        <div>${GAME_MODES[gameMode].name} | ${selected} | Press ${input.getKeyLabel('open_backpack')} for Backpack</div>
         <div style="font-size: 11px; opacity: 0.7; margin-top: 5px;">💡 Click animals with ⭐ to collect resources!</div>
-        <div style="font-size: 11px; opacity: 0.7; margin-top: 5px;">🏆 Press A for Achievements (${achievementProgress})</div>
-        <div style="font-size: 11px; opacity: 0.7; margin-top: 5px;">👨\u200d🍳 Press C for Cooking${totalMeals > 0 ? ` (${totalMeals} meals)` : ''}</div>
+        <div style="font-size: 11px; opacity: 0.7; margin-top: 5px;">🏆 Press ${input.getKeyLabel('open_achievements')} for Achievements (${achievementProgress})</div>
+        <div style="font-size: 11px; opacity: 0.7; margin-top: 5px;">👨\u200d🍳 Press ${input.getKeyLabel('open_cooking')} for Cooking${totalMeals > 0 ? ` (${totalMeals} meals)` : ''}</div>
       `;
     }
   }
@@ -539,9 +1083,8 @@ function updateUI(): void {
 function updateTimeUI(): void {
   const timeElement = document.getElementById('time-ui');
   if (timeElement) {
-    const harvested = cropSystem.getHarvestedCrops();
-    const totalHarvest = harvested.WHEAT + harvested.CARROT + harvested.TOMATO;
-    const totalAnimalResources = animalResources.EGG + animalResources.MILK + animalResources.WOOL;
+    const totalHarvest = inventory.getCategoryCount('crop');
+    const totalAnimalResources = inventory.getCategoryCount('animal');
 
     // Count active quests
     const activeQuests = neighbors.filter(n => n.hasQuest()).length;
@@ -550,19 +1093,21 @@ function updateTimeUI(): void {
     const activeEvent = eventSystem.getActiveEvent();
     const season = eventSystem.getCurrentSeason(timeManager.getDayNumber());
     const seasonEmoji = eventSystem.getSeasonEmoji(season);
+    const weather = WEATHER_TYPES[weatherSystem.getCurrent()];
 
     let eventLine = '';
     if (activeEvent) {
       const eventData = eventSystem.getEventData(activeEvent.type);
-      eventLine = `<div style="font-size: 11px; margin-top: 5px; color: #FFD700;">🎉 ${eventData.name} (Press M)</div>`;
+      eventLine = `<div style="font-size: 11px; margin-top: 5px; color: #FFD700;">🎉 ${eventData.name} (Press ${input.getKeyLabel('open_market')})</div>`;
     }
 
     timeElement.innerHTML = `
       <div style="font-size: 16px; font-weight: bold;">Day ${timeManager.getDayNumber()} ${seasonEmoji}</div>
       <div style="font-size: 14px;">${timeManager.getTimePeriod()}</div>
       <div style="font-size: 13px;">${timeManager.getTimeString()}</div>
+      <div style="font-size: 13px;">${weather.icon} ${weather.name} <span style="font-size: 10px; opacity: 0.8;">(${input.getKeyLabel('weather_forecast')}: forecast)</span></div>
       <div style="font-size: 12px; margin-top: 8px; padding-top: 8px; border-top: 1px solid rgba(255,255,255,0.3);">
-        💰 Coins: ${eventSystem.getCoins()}
+        💰 Coins: ${inventory.getCount('COINS')}
       </div>
       <div style="font-size: 12px; margin-top: 4px;">
         🌾 Crops: ${totalHarvest}
@@ -571,15 +1116,26 @@ function updateTimeUI(): void {
         🐔 Resources: ${totalAnimalResources}
       </div>
       <div style="font-size: 10px; margin-top: 4px; opacity: 0.8;">
-        🥚 ${animalResources.EGG} 🥛 ${animalResources.MILK} 🧶 ${animalResources.WOOL}
+        🥚 ${inventory.getCount('EGG')} 🥛 ${inventory.getCount('MILK')} 🧶 ${inventory.getCount('WOOL')}
       </div>
       ${activeQuests > 0 ? `<div style="font-size: 11px; margin-top: 5px; color: #90EE90;">📋 ${activeQuests} quest${activeQuests > 1 ? 's' : ''} available!</div>` : ''}
       ${eventLine}
-      ${timeManager.isNightTime() ? '<div style="font-size: 11px; margin-top: 5px; color: #FFD700;">💤 Press B near bed to sleep</div>' : ''}
+      ${timeManager.isNightTime() ? `<div style="font-size: 11px; margin-top: 5px; color: #FFD700;">💤 Press ${input.getKeyLabel('sleep')} near bed to sleep</div>` : ''}
     `;
   }
 }
 
+function showForecast(): void {
+  const today = timeManager.getDayNumber();
+  const describe = (label: string, weather: WeatherData) =>
+    `${label}: ${weather.icon} ${weather.name} - ${weather.description}`;
+  const lines = [describe('Today', WEATHER_TYPES[weatherSystem.getCurrent()])];
+  weatherSystem.getForecast(today, FORECAST_DAYS).forEach((type, i) => {
+    lines.push(describe(`Day ${today + 1 + i}`, WEATHER_TYPES[type]));
+  });
+  showMessage(`🌦️ Weather forecast\n${lines.join('\n')}`, 6000);
+}
+
 function tryToSleep(): void {
   if (!timeManager.isNightTime()) {
     showMessage("You can only sleep at night! ⏰", 2000);
@@ -603,17 +1159,15 @@ function tryToSleep(): void {
 
 function openCookingMenu(): void {
   const recipes = cookingSystem.getAllRecipes();
-  const harvested = cropSystem.getHarvestedCrops();
 
   let message = '👨\u200d🍳 COOKING MENU 👨\u200d🍳\n\n';
   message += 'Select a recipe to cook:\n\n';
 
-  let recipeNumber = 1;
-  recipes.forEach((recipe) => {
-    const canCook = cookingSystem.canCook(recipe.id, harvested, animalResources);
+  recipes.forEach((recipe, i) => {
+    const canCook = cookingSystem.canCook(recipe.id, inventory);
     const status = canCook ? '✓' : '✗';
 
-    message += `[${recipeNumber}] ${status} ${recipe.icon} ${recipe.name}\n`;
+    message += `[${input.getKeyLabel(`menu_option_${i + 1}` as MenuOptionAction)}] ${status} ${recipe.icon} ${recipe.name}\n`;
     message += `    ${recipe.description}\n`;
     message += `    Ingredients: `;
 
@@ -622,51 +1176,62 @@ function openCookingMenu(): void {
       .join(', ');
     message += ingredientList + '\n';
     message += `    Sells for: ${recipe.sellPrice} coins\n\n`;
-
-    recipeNumber++;
   });
 
-  message += 'Press 1-5 to cook a recipe, or C to close';
+  message += `Press a recipe's key to cook it, or ${input.getKeyLabel('menu_close')} to close`;
 
   showMessage(message, 10000);
 
-  // Add temporary key listener for recipe selection
-  const cookListener = (e: KeyboardEvent) => {
-    const recipeIndex = parseInt(e.code.replace('Digit', '')) - 1;
-    if (recipeIndex >= 0 && recipeIndex < recipes.length) {
-      const recipe = recipes[recipeIndex];
-      tryCookRecipe(recipe.id);
-      document.removeEventListener('keydown', cookListener);
-    } else if (e.code === 'KeyC') {
-      document.removeEventListener('keydown', cookListener);
+  setOpenMenu('cooking', recipes.length);
+}
+
+// The menu's own bindings take over until an option is picked or the menu is closed
+function setOpenMenu(menu: 'cooking' | 'market', options: number): void {
+  openMenu = menu;
+  touchControls?.setMenuOptionCount(options);
+  updateInputContext();
+}
+
+function chooseMenuOption(index: number): void {
+  if (openMenu === 'cooking') {
+    const recipes = cookingSystem.getAllRecipes();
+    if (index >= recipes.length) return;
+    closeMenu();
+    tryCookRecipe(recipes[index].id);
+  } else if (openMenu === 'market') {
+    const offers = getSeedOffers();
+    if (index > offers.length) return;
+    closeMenu();
+    if (index === 0) {
+      sellAtMarket();
+    } else {
+      buySeeds(offers[index - 1]);
     }
-  };
+  }
+}
 
-  document.addEventListener('keydown', cookListener);
+function closeMenu(): void {
+  openMenu = null;
+  updateInputContext();
 }
 
 function tryCookRecipe(recipeId: string): void {
-  const harvested = cropSystem.getHarvestedCrops();
   const recipe = cookingSystem.getRecipe(recipeId as any);
 
-  if (!cookingSystem.canCook(recipeId as any, harvested, animalResources)) {
+  if (!cookingSystem.canCook(recipeId as any, inventory)) {
     showMessage(`❌ Not enough ingredients for ${recipe.name}!`, 2500);
     return;
   }
 
-  // Deduct ingredients
-  for (const [ingredient, count] of Object.entries(recipe.ingredients)) {
-    if (ingredient === 'WHEAT' || ingredient === 'CARROT' || ingredient === 'TOMATO') {
-      cropSystem.deductHarvestedCrops(ingredient as CropType, count!);
-    } else if (ingredient === 'EGG' || ingredient === 'MILK' || ingredient === 'WOOL') {
-      animalResources[ingredient] -= count!;
-    }
-  }
-
   // Cook the meal
-  const result = cookingSystem.cook(recipeId as any, harvested, animalResources);
+  const result = cookingSystem.cook(recipeId as any, inventory);
 
-  if (result.success && result.meal) {
+  if (!result.success) {
+    showMessage(`🎒 No room in the backpack for ${recipe.name}!`, 2500);
+    return;
+  }
+
+  if (result.meal) {
     soundManager.playPlaceSound();
     showMessage(`${recipe.icon} Cooked ${recipe.name}! Worth ${recipe.sellPrice} coins.`, 3000);
     const camPos = camera.position;
@@ -693,7 +1258,7 @@ function showAchievements(): void {
     message += `   ${ach.description} (${progressText})\n\n`;
   });
 
-  message += 'Press A again to close';
+  message += `Press ${input.getKeyLabel('open_achievements')} again to close`;
 
   showMessage(message, 8000);
 }
@@ -707,73 +1272,7 @@ function openEventMenu(): void {
   }
 
   if (eventSystem.isMarketActive()) {
-    // Show market selling interface
-    const harvested = cropSystem.getHarvestedCrops();
-    const hasAnyCrops = harvested.WHEAT > 0 || harvested.CARROT > 0 || harvested.TOMATO > 0;
-    const hasAnyResources = animalResources.EGG > 0 || animalResources.MILK > 0 || animalResources.WOOL > 0;
-
-    if (!hasAnyCrops && !hasAnyResources) {
-      showMessage("You don't have anything to sell at the market!", 2500);
-      return;
-    }
-
-    // Calculate total possible earnings
-    let totalValue = 0;
-    totalValue += harvested.WHEAT * 5;
-    totalValue += harvested.CARROT * 8;
-    totalValue += harvested.TOMATO * 10;
-    totalValue += animalResources.EGG * 3;
-    totalValue += animalResources.MILK * 6;
-    totalValue += animalResources.WOOL * 12;
-
-    // Sell all items
-    if (harvested.WHEAT > 0) {
-      eventSystem.sellItem('WHEAT', harvested.WHEAT);
-      cropSystem.deductHarvestedCrops('WHEAT', harvested.WHEAT);
-    }
-    if (harvested.CARROT > 0) {
-      eventSystem.sellItem('CARROT', harvested.CARROT);
-      cropSystem.deductHarvestedCrops('CARROT', harvested.CARROT);
-    }
-    if (harvested.TOMATO > 0) {
-      eventSystem.sellItem('TOMATO', harvested.TOMATO);
-      cropSystem.deductHarvestedCrops('TOMATO', harvested.TOMATO);
-    }
-    if (animalResources.EGG > 0) {
-      eventSystem.sellItem('EGG', animalResources.EGG);
-      animalResources.EGG = 0;
-    }
-    if (animalResources.MILK > 0) {
-      eventSystem.sellItem('MILK', animalResources.MILK);
-      animalResources.MILK = 0;
-    }
-    if (animalResources.WOOL > 0) {
-      eventSystem.sellItem('WOOL', animalResources.WOOL);
-      animalResources.WOOL = 0;
-    }
-
-    // Sell all cooked meals (worth more than raw ingredients!)
-    const cookedMeals = cookingSystem.getCookedMeals();
-    const recipes = cookingSystem.getAllRecipes();
-    recipes.forEach((recipe) => {
-      const mealCount = cookedMeals[recipe.id];
-      if (mealCount > 0) {
-        const earnings = cookingSystem.sellMeal(recipe.id, mealCount);
-        totalValue += earnings;
-      }
-    });
-
-    soundManager.playPlaceSound();
-    showMessage(`💰 Sold everything at market for ${totalValue} coins! Total: ${eventSystem.getCoins()} coins`, 3500);
-    const camPos = camera.position;
-    particleSystem.spawn('coins', camPos.x, camPos.y - 1, camPos.z);
-
-    // Track achievements
-    achievementSystem.onMarketVisit();
-    achievementSystem.onCoinsUpdated(eventSystem.getCoins());
-
-    updateTimeUI();
-
+    openMarketMenu();
   } else if (eventSystem.isFestivalActive()) {
     // Claim festival reward
     const reward = eventSystem.claimFestivalReward(activeEvent.type);
@@ -781,10 +1280,13 @@ function openEventMenu(): void {
     if (reward) {
       let rewardText = '🎉 Festival reward claimed! ';
       if (reward.seeds) {
-        cropSystem.addSeeds(reward.seeds.type, reward.seeds.amount);
-        rewardText += `+${reward.seeds.amount} ${reward.seeds.type} seeds `;
+        const seedItem = getSeedItem(reward.seeds.type);
+        const { x, y, z } = getBodyCenter();
+        giveItems(seedItem, reward.seeds.amount, x, y, z);
+        rewardText += `+${reward.seeds.amount} ${ITEMS[seedItem].name} `;
       }
       if (reward.coins) {
+        inventory.add('COINS', reward.coins);
         rewardText += `+${reward.coins} coins`;
       }
 
@@ -799,6 +1301,171 @@ function openEventMenu(): void {
   }
 }
 
+// Every crop, animal product and meal the market buys (meals are worth more than raw ingredients!)
+function getItemsForSale(): ItemId[] {
+  return (Object.keys(ITEMS) as ItemId[]).filter((item) => ITEMS[item].sellPrice && inventory.has(item));
+}
+
+// Packets of seeds for whatever can be planted this season, as many as there are menu keys left;
+// what grows best this season comes first
+function getSeedOffers(): ItemId[] {
+  const season = eventSystem.getCurrentSeason(timeManager.getDayNumber());
+  const seasonRate = (item: ItemId) => {
+    const { plants, buyPrice } = ITEMS[item];
+    return plants !== undefined && buyPrice !== undefined ? cropSystem.getSeasonRate(plants, season) : 0;
+  };
+  return getItemsInCategory('seed')
+    .filter((item) => seasonRate(item) > 0)
+    .sort((a, b) => seasonRate(b) - seasonRate(a))
+    .slice(0, MENU_OPTION_COUNT - 1);
+}
+
+function openMarketMenu(): void {
+  const optionKey = (index: number) => input.getKeyLabel(`menu_option_${index + 1}` as MenuOptionAction);
+  const saleValue = getItemsForSale().reduce(
+    (total, item) => total + eventSystem.getSalePrice(item, inventory.getCount(item)),
+    0
+  );
+  const offers = getSeedOffers();
+
+  let message = '🏪 WEEKLY MARKET 🏪\n\n';
+  message += `[${optionKey(0)}] 💰 Sell everything (${saleValue} coins)\n\n`;
+  message += 'Seeds in season:\n';
+  offers.forEach((item, i) => {
+    const { name, buyPrice } = ITEMS[item];
+    message += `[${optionKey(i + 1)}] 🌱 ${SEED_PACKET} ${name} - ${buyPrice! * SEED_PACKET} coins\n`;
+  });
+  message += `\nYou have ${inventory.getCount('COINS')} coins. Press an option's key, or ${input.getKeyLabel('menu_close')} to close`;
+
+  showMessage(message, 10000);
+  setOpenMenu('market', offers.length + 1);
+}
+
+function sellAtMarket(): void {
+  const forSale = getItemsForSale();
+  if (forSale.length === 0) {
+    showMessage("You don't have anything to sell at the market!", 2500);
+    return;
+  }
+
+  let totalValue = 0;
+  forSale.forEach((item) => {
+    const count = inventory.getCount(item);
+    totalValue += eventSystem.getSalePrice(item, count);
+    inventory.remove(item, count);
+  });
+  inventory.add('COINS', totalValue);
+
+  soundManager.playPlaceSound();
+  showMessage(`💰 Sold everything at market for ${totalValue} coins! Total: ${inventory.getCount('COINS')} coins`, 3500);
+  const camPos = camera.position;
+  particleSystem.spawn('coins', camPos.x, camPos.y - 1, camPos.z);
+
+  // Track achievements
+  achievementSystem.onMarketVisit();
+
+  updateTimeUI();
+}
+
+// Pays only for the seeds that fit in the backpack
+function buySeeds(item: ItemId): void {
+  const { name, buyPrice = 0 } = ITEMS[item];
+  const price = buyPrice * SEED_PACKET;
+  if (inventory.getCount('COINS') < price) {
+    showMessage(`❌ ${SEED_PACKET} ${name} cost ${price} coins!`, 2500);
+    return;
+  }
+
+  const bought = SEED_PACKET - inventory.add(item, SEED_PACKET);
+  if (bought === 0) {
+    showMessage(`🎒 No room in the backpack for ${name}!`, 2500);
+    return;
+  }
+  inventory.remove('COINS', buyPrice * bought);
+  soundManager.playPlaceSound();
+  showMessage(`🌱 Bought ${bought} ${name} for ${buyPrice * bought} coins`, 2500);
+  updateTimeUI();
+}
+
+function buildSaveData(): SaveData {
+  return {
+    version: SAVE_VERSION,
+    savedAt: new Date().toISOString(),
+    gameMode,
+    time: timeManager.getSaveState(),
+    crops: cropSystem.getSaveState(),
+    soil: soilSystem.getSaveState(),
+    events: eventSystem.getSaveState(),
+    neighbors: neighbors.map((n) => n.getSaveState()),
+    achievements: achievementSystem.getSaveState(),
+    inventory: inventory.getSaveState(),
+    world: worldStreamer.getSaveState(),
+  };
+}
+
+// Apply a save on top of a freshly generated world
+function applySaveData(data: SaveData): void {
+  timeManager.loadSaveState(data.time);
+  soilSystem.loadSaveState(data.soil);
+  cropSystem.loadSaveState(data.crops);
+  eventSystem.loadSaveState(data.events);
+  achievementSystem.loadSaveState(data.achievements);
+  // Older farms can carry more than fits; the rest is dropped at the player's feet
+  const overflow = inventory.loadSaveState(data.inventory);
+  if (overflow.length > 0) {
+    const { x, y, z } = getBodyCenter();
+    overflow.forEach(({ item, count }) => itemDrops.spawn(item, count, x, y, z));
+    showMessage('🎒 Not everything fit in the backpack - the rest is on the ground', 3000);
+  }
+  instructionsOverlay.setMode(data.gameMode);
+  setGameMode(data.gameMode);
+
+  data.neighbors.forEach((state) => {
+    const neighbor = neighbors.find((n) => n.getName() === state.name);
+    if (neighbor) {
+      neighbor.loadSaveState(state);
+    }
+  });
+
+  // Remove generated blocks the player broke or knocked down, and put back what they built
+  worldStreamer.loadSaveState(data.world);
+
+  updateUI();
+  updateTimeUI();
+}
+
+function saveGame(): void {
+  if (saveSystem.saveToStorage(buildSaveData())) {
+    showMessage('💾 Farm saved!', 1500);
+  }
+}
+
+function exportFarm(): void {
+  saveSystem.exportToFile(buildSaveData());
+}
+
+function importFarm(): void {
+  saveSystem
+    .importFromFile()
+    .then((data) => {
+      // Reload so the imported farm is applied to a clean world
+      saveSystem.saveToStorage(data);
+      window.location.reload();
+    })
+    .catch((error: Error) => {
+      if (error.message === IMPORT_CANCELLED) return;
+      console.error('Farm import failed:', error);
+      window.alert(`Could not import farm: ${error.message}`);
+    });
+}
+
+function startNewFarm(): void {
+  if (window.confirm('Start a new farm? Your saved progress will be deleted.')) {
+    saveSystem.clearStorage();
+    window.location.reload();
+  }
+}
+
 function showMessage(text: string, duration: number): void {
   const msgElement = document.getElementById('message-ui');
   if (msgElement) {
@@ -830,11 +1497,31 @@ async function main() {
 
   // Create time and crop systems
   timeManager = new TimeManager(scene, ambientLight, directionalLight);
-  cropSystem = new CropSystem(scene);
+  inventory = new Inventory();
+  soilSystem = new SoilSystem(scene, world);
+  cropSystem = new CropSystem(scene, world, inventory, soilSystem);
   eventSystem = new EventSystem();
   particleSystem = new ParticleSystem(scene);
   achievementSystem = new AchievementSystem();
   cookingSystem = new CookingSystem();
+  saveSystem = new SaveSystem();
+
+  // A saved farm regenerates the same terrain it was built on
+  const savedFarm = saveSystem.loadFromStorage();
+  const terrainSeed = savedFarm?.world.seed ?? randomSeed();
+
+  // The weather is worked out from the same seed, so a farm's forecast survives saving
+  weatherSystem = new WeatherSystem(scene, timeManager, (day) => eventSystem.getCurrentSeason(day));
+  weatherSystem.setSeed(terrainSeed);
+  weatherSystem.registerLightningCallback(onLightningStrike);
+
+  // Keep the HUD and coin achievements in step with the inventory
+  inventory.registerItemChangeCallback((item, total) => {
+    if (item === 'COINS') {
+      achievementSystem.onCoinsUpdated(total);
+    }
+    updateTimeUI();
+  });
 
   // Register achievement unlock callback
   achievementSystem.registerUnlockCallback((achievement) => {
@@ -845,7 +1532,21 @@ async function main() {
 
   // Register crop growth on new day
   timeManager.registerNewDayCallback(() => {
-    cropSystem.onNewDay(timeManager.getDayNumber());
+    // Crops grow on yesterday's soil, then the soil dries out and wears down overnight
+    cropSystem.onNewDay(eventSystem.getCurrentSeason(timeManager.getDayNumber()));
+    soilSystem.onNewDay((x, y, z) => {
+      const crop = cropSystem.getCropAt(x, y + VOXEL_SIZE, z);
+      return crop !== null && cropSystem.isGrowing(crop);
+    });
+    // Then the new day's weather sets in: rain soaks the fields, a drought bakes them
+    weatherSystem.startDay(timeManager.getDayNumber());
+    const weather = WEATHER_TYPES[weatherSystem.getCurrent()];
+    if (weather.watersSoil) {
+      soilSystem.waterExposed();
+    }
+    if (weather.drying > 0) {
+      soilSystem.dryOut(weather.drying);
+    }
     eventSystem.update(timeManager.getDayNumber());
     achievementSystem.onDayPassed(timeManager.getDayNumber());
   });
@@ -877,42 +1578,56 @@ async function main() {
     });
   });
 
-  // Create controls (but don't lock yet - wait for cinematic)
-  controls = new Controls(camera, renderer.domElement);
+  // Create input and controls (but don't lock yet - wait for cinematic)
+  input = new InputManager(renderer.domElement);
+  controls = new Controls(camera, renderer.domElement, input);
+
+  // Touch screens get on-screen controls instead of pointer lock
+  if (isTouchDevice()) {
+    controls.setTouchMode(true);
+    touchControls = new TouchControls(input, controls, MENU_OPTION_COUNT);
+  }
 
-  // Listen for pointer lock changes to hide/show instructions
-  document.addEventListener('pointerlockchange', () => {
-    if (document.pointerLockElement === renderer.domElement) {
-      // Pointer is locked - hide instructions
+  // Listen for lock changes to hide/show instructions
+  controls.registerLockChangeCallback((locked) => {
+    if (locked) {
+      // Controls are locked - hide instructions and the backpack
       instructionsOverlay.hide();
+      if (inventoryUI.isOpen()) {
+        inventoryUI.toggle();
+      }
     } else {
-      // Pointer is unlocked - show instructions (unless cinematic is playing)
-      if (!cinematicPlaying) {
+      // Controls are unlocked - show instructions (unless cinematic is playing or the backpack is open)
+      if (!cinematicPlaying && !inventoryUI.isOpen()) {
         instructionsOverlay.show();
       }
     }
   });
 
-  // Add skip cinematic on ESC or Space during intro
-  const skipCinematic = (e: KeyboardEvent) => {
-    if (cinematicPlaying && (e.code === 'Escape' || e.code === 'Space')) {
-      cinematic.skip();
-      cinematicPlaying = false;
-      controls.lock();
-    }
-  };
-  window.addEventListener('keydown', skipCinematic);
 
   // Create ground (below terrain)
-  new Ground(scene);
+  ground = new Ground(scene, gridToWorld(TERRAIN_FLOOR_Y) - VOXEL_SIZE / 2);
 
-  // Generate terrain
-  const terrainBlocks = generateTerrain(scene);
-  blocks.push(...terrainBlocks);
+  // Generate the terrain around the farm; more streams in as the player explores
+  worldStreamer = new WorldStreamer(world, new Water(scene), terrainSeed);
+  worldStreamer.loadAround(camera.position);
+
+  blueprintTool = new BlueprintTool(scene, world);
 
   // Generate farm world
-  const farmBlocks = generateFarmWorld(scene);
-  blocks.push(...farmBlocks);
+  generateFarmWorld(world);
+
+  // A generated block that breaks loose (collapse, pouring sand) has to be saved where it lands
+  world.registerBlockReleasedCallback((block) => {
+    // Crops are saved by the crop system
+    if (!block.blockType) return;
+    worldStreamer.trackRemoved(block);
+    worldStreamer.trackPlaced(block);
+
+    if (openEdit && !openEdit.added.includes(block) && !openEdit.removed.some((moved) => moved.block === block)) {
+      openEdit.removed.push(describeBlock(block));
+    }
+  });
 
   // Spawn farm animals
   // Chickens near player's house
@@ -969,12 +1684,31 @@ async function main() {
     });
   });
 
-  // Add mouse click listeners
-  window.addEventListener('click', onMouseClick);
-  window.addEventListener('contextmenu', (e) => e.preventDefault());
+  // Auto-save once every system has processed the new day
+  timeManager.registerNewDayCallback(() => {
+    saveGame();
+  });
 
-  // Add keyboard listener
-  window.addEventListener('keydown', onKeyDown);
+  instructionsOverlay.registerSaveCallbacks(exportFarm, importFarm, startNewFarm);
+  instructionsOverlay.registerModeCallback(setGameMode);
+  const keyBindingsUI = new KeyBindingsUI(input);
+  instructionsOverlay.registerBindingsCallback(() => keyBindingsUI.show());
+  instructionsOverlay.setMode(gameMode);
+
+  // Dropped items bump into blocks (not crops), the ground under the terrain and the edge of
+  // the loaded world
+  const isSolidAt = (x: number, y: number, z: number) => {
+    const cell = gridPosFromWorld(x, y, z);
+    if (cell.y < TERRAIN_FLOOR_Y) return true;
+    if (!world.isAreaLoaded(chunkCoord(cell.x), chunkCoord(cell.z))) return true;
+    return !!world.getBlockAtGrid(cell.x, cell.y, cell.z)?.blockType;
+  };
+  controls.setAreaCheck((x, z) => world.isAreaLoaded(chunkCoord(worldToGrid(x)), chunkCoord(worldToGrid(z))));
+  itemDrops = new ItemDrops(scene, isSolidAt);
+
+  // Keyboard, mouse and gamepad all arrive as actions
+  input.registerActionCallback(onAction);
+  window.addEventListener('contextmenu', (e) => e.preventDefault());
 
   // Create crosshair
   const crosshair = document.createElement('div');
@@ -991,7 +1725,6 @@ async function main() {
   uiElement.style.color = 'white';
   uiElement.style.fontFamily = 'Segoe UI, system-ui, sans-serif';
   uiElement.style.fontSize = '16px';
-  uiElement.textContent = `Selected: ${selectedBlockType}`;
   document.body.appendChild(uiElement);
 
   // Create time UI
@@ -1027,6 +1760,35 @@ async function main() {
   messageElement.style.transition = 'opacity 0.5s';
   document.body.appendChild(messageElement);
 
+  // Create the targeted crop and soil readout
+  const targetInfoElement = document.createElement('div');
+  targetInfoElement.id = 'target-info';
+  targetInfoElement.className = 'ui-panel';
+  targetInfoElement.style.position = 'absolute';
+  targetInfoElement.style.bottom = '76px';
+  targetInfoElement.style.left = '50%';
+  targetInfoElement.style.transform = 'translateX(-50%)';
+  targetInfoElement.style.color = 'white';
+  targetInfoElement.style.fontFamily = 'Segoe UI, system-ui, sans-serif';
+  targetInfoElement.style.fontSize = '14px';
+  targetInfoElement.style.textAlign = 'center';
+  targetInfoElement.style.whiteSpace = 'pre-line';
+  targetInfoElement.style.pointerEvents = 'none';
+  targetInfoElement.style.display = 'none';
+  document.body.appendChild(targetInfoElement);
+
+  // Create the hotbar and backpack
+  inventoryUI = new InventoryUI(inventory);
+  inventoryUI.setCreative(GAME_MODES[gameMode].unlimitedBlocks);
+  inventory.registerSlotsChangeCallback(updateUI);
+  updateUI();
+
+  // Continue the saved farm if there is one
+  if (savedFarm) {
+    applySaveData(savedFarm);
+  }
+  weatherSystem.startDay(timeManager.getDayNumber());
+
   animate();
 }
 
@@ -23,3 +23,20 @@ export const BlockColors: Record<BlockType, number> = {
   COBBLESTONE: 0x696969, // Dim gray
   PLANKS: 0xcd853f, // Peru brown
 };
+
+export interface IntegrityProfile {
+  strength: number; // Blocks it can carry stacked on top while overhanging
+  maxSpan: number; // Cells it can reach sideways from vertical support
+}
+
+export const BlockIntegrity: Record<BlockType, IntegrityProfile> = {
+  DIRT: { strength: 4, maxSpan: 1 },
+  STONE: { strength: 24, maxSpan: 6 },
+  WOOD: { strength: 16, maxSpan: 5 },
+  GRASS: { strength: 4, maxSpan: 1 },
+  BRICK: { strength: 16, maxSpan: 6 },
+  SAND: { strength: 1, maxSpan: 0 }, // Crumbles without something underneath
+  GLASS: { strength: 2, maxSpan: 1 },
+  COBBLESTONE: { strength: 20, maxSpan: 5 },
+  PLANKS: { strength: 12, maxSpan: 5 },
+};